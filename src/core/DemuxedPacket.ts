@@ -0,0 +1,37 @@
+/**
+ * The flags of a demuxed packet, which are those of WebM SimpleBlocks.
+ */
+export const PACKET_FLAGS = {
+  // The packet can be decoded without the previous ones
+  KEYFRAME: 0x80,
+  // The packet is decoded but shouldn't be played back
+  INVISIBLE: 0x08,
+  // The packet can be dropped, e.g. when decoding is too slow
+  DISCARDABLE: 0x01,
+};
+
+/**
+ * A packet output by a demuxer when its `metadata` option is enabled.
+ */
+export interface DemuxedPacket {
+  /**
+   * the data of the packet
+   */
+  data: Buffer;
+  /**
+   * the presentation time of the packet in milliseconds, relative to the start of the audio
+   */
+  timestamp: number;
+  /**
+   * the duration of the packet in milliseconds, if it is known
+   */
+  duration?: number;
+  /**
+   * the number of the track (WebM) or the serial number of the logical bitstream (Ogg) of the packet
+   */
+  trackNumber: number;
+  /**
+   * a combination of `PACKET_FLAGS`
+   */
+  flags: number;
+}
@@ -0,0 +1,137 @@
+// The fraction of a gain reduction that remains at the end of the attack, i.e. -40 dB
+const ATTACK_RESIDUE = 0.01;
+
+/**
+ * The options of a look-ahead peak limiter.
+ */
+export interface LimiterOptions {
+  /**
+   * the level that the output never exceeds, in dBFS (defaults to -1)
+   */
+  threshold?: number;
+  /**
+   * the time it takes to reduce the gain before a peak, which is also the look-ahead delay, in milliseconds
+   * (defaults to 5)
+   */
+  attack?: number;
+  /**
+   * the time it takes to restore the gain after a peak, in milliseconds (defaults to 100)
+   */
+  release?: number;
+}
+
+/**
+ * A look-ahead peak limiter, which delays the audio so that the gain is smoothly reduced before the peaks that would
+ * exceed the threshold. The samples of all channels are processed in a single stream so that they share the same
+ * gain reduction.
+ */
+export class Limiter {
+  private readonly threshold: number;
+  private readonly attackCoefficient: number;
+  private readonly releaseCoefficient: number;
+  // A ring buffer of the delayed samples
+  private readonly delay: number[];
+  private delayIndex = 0;
+  // The positions and gains of a monotonic queue, which gives the minimum gain required by the delayed samples
+  private readonly windowPositions: number[] = [];
+  private readonly windowGains: number[] = [];
+  private position = 0;
+  private gain = 1;
+
+  /**
+   * Creates a new limiter.
+   * @param options the threshold, attack and release of the limiter.
+   * @param rate the sampling rate in Hz.
+   * @param channels the number of channels.
+   * @param fullScale the value of a full-scale sample, e.g. 32768 for signed 16-bit samples.
+   */
+  public constructor(
+    { threshold = -1, attack = 5, release = 100 }: LimiterOptions,
+    rate: number,
+    channels: number,
+    fullScale: number,
+  ) {
+    const delay = Math.max(1, Math.round((attack * rate) / 1000)) * channels;
+    const releaseSamples = Math.max(1, (release * rate) / 1000) * channels;
+
+    this.threshold = 10 ** (threshold / 20) * fullScale;
+    this.attackCoefficient = 1 - ATTACK_RESIDUE ** (1 / delay);
+    this.releaseCoefficient = 1 - Math.exp(-1 / releaseSamples);
+    this.delay = Array(delay).fill(0);
+  }
+
+  /**
+   * The delay of the limiter, in samples (of all channels).
+   */
+  public get latency(): number {
+    return this.delay.length;
+  }
+
+  /**
+   * Processes a sample, returning the sample that was written `latency` samples before, limited.
+   * @param sample the sample.
+   * @returns the limited sample, or undefined while the delay line is being filled.
+   */
+  public process(sample: number): number | undefined {
+    const required = Math.abs(sample) > this.threshold ? this.threshold / Math.abs(sample) : 1;
+    const { windowPositions, windowGains } = this;
+    while (windowGains.length > 0 && windowGains[windowGains.length - 1] >= required) {
+      windowGains.pop();
+      windowPositions.pop();
+    }
+    windowGains.push(required);
+    windowPositions.push(this.position);
+    // The window holds the delayed samples and the new one
+    while (windowPositions[0] < this.position - this.delay.length) {
+      windowGains.shift();
+      windowPositions.shift();
+    }
+    this.position++;
+
+    const target = windowGains[0];
+    const coefficient = target < this.gain ? this.attackCoefficient : this.releaseCoefficient;
+    this.gain += (target - this.gain) * coefficient;
+
+    const delayed = this.delay[this.delayIndex];
+    this.delay[this.delayIndex] = sample;
+    this.delayIndex = (this.delayIndex + 1) % this.delay.length;
+    if (this.position <= this.delay.length) {
+      return undefined;
+    }
+
+    // The gain may not have fully reached its target if the attack was interrupted
+    const limited = delayed * this.gain;
+    return Math.min(this.threshold, Math.max(-this.threshold, limited));
+  }
+
+  /**
+   * Returns the samples still held in the delay line, limited.
+   */
+  public flush(): number[] {
+    const remaining = Math.min(this.position, this.delay.length);
+    const samples = [];
+    while (samples.length < remaining) {
+      const sample = this.process(0);
+      if (typeof sample !== 'undefined') {
+        samples.push(sample);
+      }
+    }
+    return samples;
+  }
+}
+
+/**
+ * Clips a sample with a soft knee: samples below the knee are unchanged, and samples above it are smoothly
+ * compressed so that they never exceed full scale.
+ * @param sample the sample.
+ * @param fullScale the value of a full-scale sample.
+ * @param [knee=0.5] the start of the knee, relative to full scale (defaults to -6 dBFS).
+ */
+export function softClip(sample: number, fullScale: number, knee = 0.5): number {
+  const level = Math.abs(sample) / fullScale;
+  if (level <= knee) {
+    return sample;
+  }
+  const clipped = knee + (1 - knee) * Math.tanh((level - knee) / (1 - knee));
+  return Math.sign(sample) * clipped * fullScale;
+}
@@ -0,0 +1,516 @@
+import { Transform, TransformCallback, TransformOptions } from 'stream';
+import { Limiter, LimiterOptions, softClip } from './Limiter';
+import { getPcmFormat, PcmFormat } from './PcmFormat';
+
+// The gates of ITU-R BS.1770 and EBU Tech 3342, in LUFS and LU
+const ABSOLUTE_GATE = -70;
+const INTEGRATED_RELATIVE_GATE = -10;
+const RANGE_RELATIVE_GATE = -20;
+
+// The loudness histograms cover -70 to +5 LUFS with a resolution of 0.01 LU
+const HISTOGRAM_STEP = 0.01;
+const HISTOGRAM_BINS = 7500;
+
+// True peaks are measured by oversampling 4 times with a windowed-sinc filter of 12 taps per phase
+const OVERSAMPLING = 4;
+const INTERPOLATION_TAPS = 12;
+const INTERPOLATION_FILTER = createInterpolationFilter();
+
+// The channel weights of the standard layouts of 5 and 6 (5.1) channels, the surround channels being weighted +1.5 dB
+const SURROUND_WEIGHTS: Record<number, number[]> = {
+  5: [1, 1, 1, 1.41, 1.41],
+  6: [1, 1, 1, 0, 1.41, 1.41],
+};
+
+/**
+ * A loudness measurement.
+ */
+export interface Loudness {
+  /**
+   * the momentary loudness (over the last 400 ms) in LUFS
+   */
+  momentary: number;
+  /**
+   * the short-term loudness (over the last 3 s) in LUFS
+   */
+  shortTerm: number;
+  /**
+   * the integrated (gated) loudness since the start of the stream in LUFS
+   */
+  integrated: number;
+  /**
+   * the loudness range since the start of the stream in LU
+   */
+  range: number;
+  /**
+   * the maximum true peak since the start of the stream in dBTP
+   */
+  truePeak: number;
+}
+
+interface LoudnessMeterOptions extends TransformOptions {
+  /**
+   * the sample format of the stream (defaults to s16le)
+   */
+  type?: string | PcmFormat;
+  /**
+   * the sampling rate of the stream in Hz (defaults to 48000)
+   */
+  rate?: number;
+  /**
+   * the number of channels of the stream (defaults to 2)
+   */
+  channels?: number;
+  /**
+   * the weight of each channel (defaults to 1 for each channel, except for the LFE and surround channels of 5.0 and
+   * 5.1 layouts)
+   */
+  weights?: number[];
+  /**
+   * the loudness to normalize the stream to, in LUFS (e.g. -23 for EBU R128, or -14 for streaming services), which
+   * enables normalization
+   */
+  target?: number;
+  /**
+   * the maximum gain applied by normalization in dB (defaults to 12)
+   */
+  maxGain?: number;
+  /**
+   * whether normalization applies a look-ahead peak limiter to the amplified audio, or its options (defaults to true)
+   */
+  limiter?: boolean | LimiterOptions;
+  /**
+   * how normalized samples that exceed full scale are clipped: `hard` clamps them, `soft` smoothly compresses the
+   * samples above -6 dBFS (defaults to hard)
+   */
+  clipping?: 'hard' | 'soft';
+}
+
+/**
+ * A second-order IIR filter.
+ */
+class Biquad {
+  private readonly b: number[];
+  private readonly a: number[];
+  private x1 = 0;
+  private x2 = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  /**
+   * @param b the feedforward coefficients.
+   * @param a the feedback coefficients, the first one being 1.
+   */
+  public constructor(b: number[], a: number[]) {
+    this.b = b;
+    this.a = a;
+  }
+
+  public process(x: number): number {
+    const y = this.b[0] * x + this.b[1] * this.x1 + this.b[2] * this.x2 - this.a[1] * this.y1 - this.a[2] * this.y2;
+    this.x2 = this.x1;
+    this.x1 = x;
+    this.y2 = this.y1;
+    this.y1 = y;
+    return y;
+  }
+}
+
+/**
+ * A histogram of the loudness of blocks, which allows gating them without keeping each block.
+ */
+class LoudnessHistogram {
+  private readonly counts = new Float64Array(HISTOGRAM_BINS);
+  private readonly energies = new Float64Array(HISTOGRAM_BINS);
+
+  /**
+   * Adds a block if it is above the absolute gate.
+   * @param energy the mean square of the block.
+   */
+  public add(energy: number): void {
+    const loudness = energyToLoudness(energy);
+    if (loudness < ABSOLUTE_GATE) {
+      return;
+    }
+    const bin = Math.min(HISTOGRAM_BINS - 1, Math.floor((loudness - ABSOLUTE_GATE) / HISTOGRAM_STEP));
+    this.counts[bin]++;
+    this.energies[bin] += energy;
+  }
+
+  /**
+   * Gets the first bin of the blocks above the relative gate.
+   * @param gate the relative gate in LU.
+   * @returns the first bin, or -1 if there isn't any block.
+   */
+  public gatedBin(gate: number): number {
+    const absolute = energyToLoudness(this.meanEnergy(0));
+    if (absolute === -Infinity) {
+      return -1;
+    }
+    return Math.max(0, Math.ceil((absolute + gate - ABSOLUTE_GATE) / HISTOGRAM_STEP));
+  }
+
+  /**
+   * Gets the mean energy of the blocks from a bin.
+   * @param from the first bin.
+   */
+  public meanEnergy(from: number): number {
+    let count = 0;
+    let energy = 0;
+    for (let bin = from; bin < HISTOGRAM_BINS; bin++) {
+      count += this.counts[bin];
+      energy += this.energies[bin];
+    }
+    return count > 0 ? energy / count : 0;
+  }
+
+  /**
+   * Gets a percentile of the loudness of the blocks from a bin.
+   * @param from the first bin.
+   * @param percentile the percentile, between 0 and 1.
+   */
+  public percentile(from: number, percentile: number): number {
+    let total = 0;
+    for (let bin = from; bin < HISTOGRAM_BINS; bin++) {
+      total += this.counts[bin];
+    }
+    let count = 0;
+    for (let bin = from; bin < HISTOGRAM_BINS; bin++) {
+      count += this.counts[bin];
+      if (count > percentile * total) {
+        return ABSOLUTE_GATE + (bin + 0.5) * HISTOGRAM_STEP;
+      }
+    }
+    return ABSOLUTE_GATE;
+  }
+}
+
+/**
+ * Measures the loudness of a PCM stream according to EBU R128 and ITU-R BS.1770, passing the audio through.
+ *
+ * The `loudness` event is emitted with a `Loudness` measurement every 100 ms of audio, and the latest measurement is
+ * available with getters. When a `target` is given, the stream is normalized: its gain is gradually adjusted so that
+ * its integrated loudness reaches the target, and a look-ahead limiter keeps the amplified peaks below its threshold
+ * (-1 dBFS by default), delaying the audio by its attack time. The measurements are those of the input audio.
+ * @example
+ * const meter = new prism.LoudnessMeter({ type: 's16le', rate: 48000, channels: 2, target: -14 });
+ * meter.on('loudness', ({ shortTerm }) => console.log(`${shortTerm} LUFS`));
+ * pcm.pipe(meter).pipe(output);
+ */
+export class LoudnessMeter extends Transform {
+  private readonly format: PcmFormat;
+  private readonly channels: number;
+  private readonly weights: number[];
+  private readonly filters: [Biquad, Biquad][];
+  private readonly target?: number;
+  private readonly maxGain: number;
+  private readonly limiter?: Limiter;
+  private readonly softClipping: boolean;
+  // The number of frames of the 100 ms blocks whose energies are used by all measurements
+  private readonly blockFrames: number;
+  private chunk?: Buffer = Buffer.alloc(0);
+  private blocks: number[] = [];
+  private blockEnergy = 0;
+  private blockPosition = 0;
+  private readonly gatingBlocks = new LoudnessHistogram();
+  private readonly shortTermBlocks = new LoudnessHistogram();
+  private readonly history: number[][];
+  private peak = 0;
+  private gain = 1;
+  // The factor applied to the gain at each frame, which moves it to its target over a block
+  private gainStep = 1;
+  private _loudness: Loudness = {
+    momentary: -Infinity,
+    shortTerm: -Infinity,
+    integrated: -Infinity,
+    range: 0,
+    truePeak: -Infinity,
+  };
+
+  /**
+   * Creates a new loudness meter.
+   * @param [options] options that you would pass to a regular Transform stream, plus a few more.
+   */
+  public constructor({
+    type = 's16le',
+    rate = 48000,
+    channels = 2,
+    weights = SURROUND_WEIGHTS[channels] ?? Array(channels).fill(1),
+    target,
+    maxGain = 12,
+    limiter = true,
+    clipping,
+    ...options
+  }: LoudnessMeterOptions = {}) {
+    super(options);
+
+    if (weights.length !== channels) {
+      throw new Error('There must be a weight for each channel');
+    }
+    this.format = getPcmFormat(type);
+    this.channels = channels;
+    this.weights = weights;
+    this.filters = Array.from({ length: channels }, () => createKWeightingFilter(rate));
+    this.history = Array.from({ length: channels }, () => Array(INTERPOLATION_TAPS).fill(0));
+    this.target = target;
+    this.maxGain = maxGain;
+    if (typeof target !== 'undefined' && limiter) {
+      this.limiter = new Limiter(limiter === true ? {} : limiter, rate, channels, -this.format.min);
+    }
+    this.softClipping = clipping === 'soft';
+    this.blockFrames = Math.round(rate / 10);
+  }
+
+  /**
+   * The latest loudness measurement.
+   */
+  public get loudness(): Loudness {
+    return this._loudness;
+  }
+
+  /**
+   * The momentary loudness (over the last 400 ms) in LUFS.
+   */
+  public get momentary(): number {
+    return this._loudness.momentary;
+  }
+
+  /**
+   * The short-term loudness (over the last 3 s) in LUFS.
+   */
+  public get shortTerm(): number {
+    return this._loudness.shortTerm;
+  }
+
+  /**
+   * The integrated loudness since the start of the stream in LUFS.
+   */
+  public get integrated(): number {
+    return this._loudness.integrated;
+  }
+
+  /**
+   * The loudness range since the start of the stream in LU.
+   */
+  public get range(): number {
+    return this._loudness.range;
+  }
+
+  /**
+   * The maximum true peak since the start of the stream in dBTP.
+   */
+  public get truePeak(): number {
+    return this._loudness.truePeak;
+  }
+
+  /**
+   * The gain currently applied by normalization in dB.
+   */
+  public get gainDecibels(): number {
+    return 20 * Math.log10(this.gain);
+  }
+
+  public _transform(chunk: Buffer, encoding: BufferEncoding, done: TransformCallback): void {
+    const { format, channels } = this;
+    const frameBytes = format.bytes * channels;
+    const fullScale = -format.min;
+    const buffer = (this.chunk = this.chunk ? Buffer.concat([this.chunk, chunk]) : chunk);
+    const complete = Math.floor(buffer.length / frameBytes) * frameBytes;
+    const normalized = typeof this.target === 'undefined' ? undefined : Buffer.allocUnsafe(complete);
+    let length = 0;
+
+    for (let offset = 0; offset < complete; offset += frameBytes) {
+      for (let channel = 0; channel < channels; channel++) {
+        const position = offset + channel * format.bytes;
+        const sample = format.read(buffer, position) / fullScale;
+        this._measureSample(sample, channel);
+        if (normalized) {
+          length = this._normalizeSample(normalized, sample * this.gain * fullScale, length);
+        }
+      }
+      this.gain *= this.gainStep;
+      if (++this.blockPosition === this.blockFrames) {
+        this._endBlock();
+      }
+    }
+
+    this.chunk = buffer.slice(complete);
+    // Without normalization, the audio is passed through as is
+    this.push(normalized ? normalized.slice(0, length) : chunk);
+
+    return done();
+  }
+
+  public _flush(done: TransformCallback): void {
+    if (typeof this.target !== 'undefined') {
+      const { format } = this;
+      const chunk = this.chunk ?? Buffer.alloc(0);
+      // The samples of a trailing partial frame can't be measured, but are normalized with the current gain
+      const samples = Math.floor(chunk.length / format.bytes);
+      const buffer = Buffer.allocUnsafe((samples + (this.limiter?.latency ?? 0)) * format.bytes);
+      let length = 0;
+      for (let i = 0; i < samples; i++) {
+        length = this._normalizeSample(buffer, format.read(chunk, i * format.bytes) * this.gain, length);
+      }
+      for (const sample of this.limiter?.flush() ?? []) {
+        this._writeSample(buffer, sample, length);
+        length += format.bytes;
+      }
+      this.chunk = undefined;
+      this.push(buffer.slice(0, length));
+    }
+
+    return done();
+  }
+
+  public _destroy(error: Error | null, callback: (error: Error | null) => void): void {
+    super._destroy(error, callback);
+
+    this.chunk = undefined;
+  }
+
+  /**
+   * Writes a normalized sample after the limiter, which holds it back for its latency.
+   * @param buffer the buffer.
+   * @param sample the sample, amplified by the gain.
+   * @param offset the offset of the next sample written to the buffer.
+   * @returns the offset of the next sample written to the buffer.
+   */
+  private _normalizeSample(buffer: Buffer, sample: number, offset: number): number {
+    const limited = this.limiter ? this.limiter.process(sample) : sample;
+    if (typeof limited === 'undefined') {
+      return offset;
+    }
+    this._writeSample(buffer, limited, offset);
+    return offset + this.format.bytes;
+  }
+
+  /**
+   * Writes a sample, soft clipping it if enabled.
+   * @param buffer the buffer.
+   * @param sample the sample.
+   * @param offset the offset of the sample.
+   */
+  private _writeSample(buffer: Buffer, sample: number, offset: number): void {
+    this.format.write(buffer, this.softClipping ? softClip(sample, -this.format.min) : sample, offset);
+  }
+
+  /**
+   * Adds a sample to the current block and the true peak.
+   * @param sample the sample, relative to full scale.
+   * @param channel the channel of the sample.
+   */
+  private _measureSample(sample: number, channel: number): void {
+    const [preFilter, highPass] = this.filters[channel];
+    const filtered = highPass.process(preFilter.process(sample));
+    this.blockEnergy += this.weights[channel] * filtered * filtered;
+
+    const history = this.history[channel];
+    history.shift();
+    history.push(sample);
+    let peak = Math.abs(sample);
+    for (const phase of INTERPOLATION_FILTER) {
+      let interpolated = 0;
+      for (let tap = 0; tap < INTERPOLATION_TAPS; tap++) {
+        interpolated += phase[tap] * history[tap];
+      }
+      peak = Math.max(peak, Math.abs(interpolated));
+    }
+    this.peak = Math.max(this.peak, peak);
+  }
+
+  /**
+   * Ends a 100 ms block, updating the measurements and the gain of normalization.
+   */
+  private _endBlock(): void {
+    this.blocks.push(this.blockEnergy / this.blockFrames);
+    // Only the blocks of the last 3 seconds are needed
+    if (this.blocks.length > 30) {
+      this.blocks.shift();
+    }
+    this.blockEnergy = 0;
+    this.blockPosition = 0;
+
+    const mean = (blocks: number[]) => blocks.reduce((total, energy) => total + energy, 0) / blocks.length;
+    const loudness = { ...this._loudness, truePeak: 20 * Math.log10(this.peak) };
+
+    // Momentary blocks overlap by 75% and are used for gating, short-term blocks are used for the loudness range
+    if (this.blocks.length >= 4) {
+      const energy = mean(this.blocks.slice(-4));
+      loudness.momentary = energyToLoudness(energy);
+      this.gatingBlocks.add(energy);
+
+      const gated = this.gatingBlocks.gatedBin(INTEGRATED_RELATIVE_GATE);
+      loudness.integrated = gated === -1 ? -Infinity : energyToLoudness(this.gatingBlocks.meanEnergy(gated));
+    }
+    if (this.blocks.length === 30) {
+      const energy = mean(this.blocks);
+      loudness.shortTerm = energyToLoudness(energy);
+      this.shortTermBlocks.add(energy);
+
+      const gated = this.shortTermBlocks.gatedBin(RANGE_RELATIVE_GATE);
+      loudness.range =
+        gated === -1 ? 0 : this.shortTermBlocks.percentile(gated, 0.95) - this.shortTermBlocks.percentile(gated, 0.1);
+    }
+    this._loudness = loudness;
+
+    if (typeof this.target !== 'undefined' && loudness.integrated !== -Infinity) {
+      // The gain moves to its new value over the next block, to avoid clicks
+      const gain = 10 ** (Math.min(this.maxGain, this.target - loudness.integrated) / 20);
+      this.gainStep = (gain / this.gain) ** (1 / this.blockFrames);
+    }
+
+    this.emit('loudness', loudness);
+  }
+}
+
+/**
+ * Converts the mean square of a block to a loudness in LUFS.
+ * @param energy the mean square of the block.
+ */
+function energyToLoudness(energy: number): number {
+  return -0.691 + 10 * Math.log10(energy);
+}
+
+/**
+ * Creates the K-weighting filter of ITU-R BS.1770 at a sampling rate: a high shelf that models the acoustic effect of
+ * the head, followed by a high-pass filter (RLB weighting).
+ * @param rate the sampling rate in Hz.
+ */
+function createKWeightingFilter(rate: number): [Biquad, Biquad] {
+  // The analog parameters of the filters, which give the coefficients of the standard at 48 kHz
+  let K = Math.tan((Math.PI * 1681.974450955533) / rate);
+  let Q = 0.7071752369554196;
+  const Vh = 10 ** (3.999843853973347 / 20);
+  const Vb = Vh ** 0.4996667741545416;
+  let a0 = 1 + K / Q + K * K;
+  const preFilter = new Biquad(
+    [(Vh + (Vb * K) / Q + K * K) / a0, (2 * (K * K - Vh)) / a0, (Vh - (Vb * K) / Q + K * K) / a0],
+    [1, (2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0],
+  );
+
+  K = Math.tan((Math.PI * 38.13547087602444) / rate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass = new Biquad([1, -2, 1], [1, (2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0]);
+
+  return [preFilter, highPass];
+}
+
+/**
+ * Creates the phases of the interpolation filter used to measure true peaks, a Hann-windowed sinc whose phases are
+ * normalized to a unity gain.
+ */
+function createInterpolationFilter(): number[][] {
+  const length = OVERSAMPLING * INTERPOLATION_TAPS;
+  return Array.from({ length: OVERSAMPLING }, (_, phase) => {
+    const taps = Array.from({ length: INTERPOLATION_TAPS }, (_, tap) => {
+      const n = tap * OVERSAMPLING + phase;
+      const t = (n - (length - 1) / 2) / OVERSAMPLING;
+      const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t);
+      return sinc * (0.5 - 0.5 * Math.cos((2 * Math.PI * (n + 0.5)) / length));
+    });
+    const sum = taps.reduce((total, tap) => total + tap, 0);
+    return taps.map((tap) => tap / sum);
+  });
+}
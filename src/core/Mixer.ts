@@ -0,0 +1,463 @@
+import { Readable, ReadableOptions, Writable, WritableOptions } from 'stream';
+import { Limiter, LimiterOptions, softClip } from './Limiter';
+import { getPcmFormat, PcmFormat } from './PcmFormat';
+
+interface MixerOptions extends ReadableOptions {
+  /**
+   * the sample format of the inputs and the output
+   */
+  type?: string | PcmFormat;
+  /**
+   * the sampling rate of the inputs and the output in Hz (defaults to 48000)
+   */
+  rate?: number;
+  /**
+   * the number of channels of the inputs and the output (defaults to 2)
+   */
+  channels?: number;
+  /**
+   * the duration of the chunks that are mixed at once in milliseconds (defaults to 20)
+   */
+  chunkDuration?: number;
+  /**
+   * the duration of the audio buffered by each input before it stops accepting data, in milliseconds (defaults to
+   * 100)
+   */
+  bufferDuration?: number;
+  /**
+   * whether the mixer is read in real time (e.g. by a voice connection), in which case an input that still doesn't
+   * have a full chunk buffered one chunk duration after the others is considered to underrun and padded with silence,
+   * instead of holding back the mix (defaults to false)
+   */
+  realtime?: boolean;
+  /**
+   * whether to apply a look-ahead peak limiter to the mix, or its options (defaults to false)
+   */
+  limiter?: boolean | LimiterOptions;
+  /**
+   * how samples of the mix that exceed full scale are clipped: `hard` clamps them, `soft` smoothly compresses the
+   * samples above -6 dBFS (defaults to hard)
+   */
+  clipping?: 'hard' | 'soft';
+}
+
+interface MixerInputOptions extends WritableOptions {
+  /**
+   * the gain of the input, relative to its stream - i.e. 1 is normal, 0.5 is half, 2 is double (defaults to 1)
+   */
+  volume?: number;
+  /**
+   * whether the input is muted (defaults to false)
+   */
+  muted?: boolean;
+}
+
+/**
+ * An input of a `Mixer`, which is a writable stream of PCM audio in the format of the mixer. It is created with
+ * `Mixer#addInput`.
+ */
+export class MixerInput extends Writable {
+  private readonly frameBytes: number;
+  private readonly bufferBytes: number;
+  private readonly onData: () => void;
+  private chunk = Buffer.alloc(0);
+  // The callback of the last write, which is delayed while the buffer is full
+  private pending?: (error?: Error | null) => void;
+  private finished = false;
+  private _volume: number;
+  private _muted: boolean;
+
+  /**
+   * @private
+   * @param frameBytes the size of a frame (a sample of each channel) in bytes.
+   * @param bufferBytes the size of the buffer in bytes.
+   * @param onData called when data is written to the input or when it ends.
+   * @param options the options of the input.
+   */
+  public constructor(
+    frameBytes: number,
+    bufferBytes: number,
+    onData: () => void,
+    { volume = 1, muted = false, ...options }: MixerInputOptions = {},
+  ) {
+    // The input is destroyed by the mixer once its buffered audio has been mixed
+    super({ autoDestroy: false, ...options });
+
+    this.frameBytes = frameBytes;
+    this.bufferBytes = bufferBytes;
+    this.onData = onData;
+    this._volume = volume;
+    this._muted = muted;
+  }
+
+  /**
+   * The gain of the input.
+   */
+  public get volume(): number {
+    return this._volume;
+  }
+
+  /**
+   * Whether the input is muted. The audio of a muted input is still consumed, so it stays in sync with the others.
+   */
+  public get muted(): boolean {
+    return this._muted;
+  }
+
+  /**
+   * Sets the gain of the input, relative to its stream - i.e. 1 is normal, 0.5 is half, 2 is double.
+   * @param volume the gain.
+   */
+  public setVolume(volume: number): void {
+    this._volume = volume;
+  }
+
+  /**
+   * Mutes or unmutes the input.
+   * @param muted whether the input is muted.
+   */
+  public setMuted(muted: boolean): void {
+    this._muted = muted;
+  }
+
+  /**
+   * The number of complete frames buffered, in bytes.
+   * @private
+   */
+  public get _available(): number {
+    return this.chunk.length - (this.chunk.length % this.frameBytes);
+  }
+
+  /**
+   * Whether the input has ended, i.e. all the audio written to it is buffered.
+   * @private
+   */
+  public get _ended(): boolean {
+    return this.finished;
+  }
+
+  /**
+   * Whether the input has ended and all of its complete frames have been mixed.
+   * @private
+   */
+  public get _drained(): boolean {
+    return this.finished && this._available === 0;
+  }
+
+  /**
+   * Takes buffered audio, which may be shorter than requested if the input underruns.
+   * @private
+   * @param length the number of bytes to take.
+   */
+  public _take(length: number): Buffer {
+    const taken = this.chunk.slice(0, Math.min(length, this._available));
+    this.chunk = this.chunk.slice(taken.length);
+    if (this.pending && this.chunk.length < this.bufferBytes) {
+      const { pending } = this;
+      this.pending = undefined;
+      pending();
+    }
+    return taken;
+  }
+
+  public _write(chunk: Buffer, encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    this.chunk = Buffer.concat([this.chunk, chunk]);
+    if (this.chunk.length >= this.bufferBytes) {
+      this.pending = callback;
+    } else {
+      callback();
+    }
+    this.onData();
+  }
+
+  public _final(callback: (error?: Error | null) => void): void {
+    this.finished = true;
+    callback();
+    this.onData();
+  }
+
+  public _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    this.chunk = Buffer.alloc(0);
+    this.pending = undefined;
+    super._destroy(error, callback);
+  }
+}
+
+/**
+ * Mixes several streams of PCM audio of the same format into one, e.g. music and announcements.
+ *
+ * Inputs are writable streams created with `addInput`, which can be added and removed at any time: an input starts
+ * at the current position of the mix, and is removed once it has ended or has been destroyed. The audio is mixed in
+ * chunks as it is read, once every input that hasn't ended has a full chunk buffered, so that the inputs stay aligned
+ * however they are written; the inputs that have ended are padded with silence. With the `realtime` option, an input
+ * that falls behind is padded with silence too, rather than stalling the mix. Each input buffers `bufferDuration` of
+ * audio before applying backpressure.
+ *
+ * The `clip` event is emitted with the number of samples of each chunk that exceeded full scale once mixed, which are
+ * clipped unless a limiter is used. The mixer ends once `end` has been called and all its inputs have ended.
+ * @example
+ * const mixer = new prism.Mixer({ type: 's16le', realtime: true, limiter: true });
+ * music.pipe(mixer.addInput({ volume: 0.5 }));
+ * announcement.pipe(mixer.addInput());
+ * mixer.pipe(new prism.opus.Encoder({ rate: 48000, channels: 2, frameSize: 960 }));
+ */
+export class Mixer extends Readable {
+  private readonly format: PcmFormat;
+  private readonly frameBytes: number;
+  private readonly chunkBytes: number;
+  private readonly bufferBytes: number;
+  private readonly underrunDelay?: number;
+  private readonly _inputs = new Set<MixerInput>();
+  private readonly limiter?: Limiter;
+  private readonly softClipping: boolean;
+  private clipped = 0;
+  private underrunTimer?: NodeJS.Timeout;
+  private underrun = false;
+  private reading = false;
+  private mixing = false;
+  private ending = false;
+
+  /**
+   * Creates a new mixer.
+   * @param options options that you would pass to a regular Readable stream, plus the format of the audio.
+   * @throws Will throw an error if the sample format isn't supported.
+   */
+  public constructor({
+    type,
+    rate = 48000,
+    channels = 2,
+    chunkDuration = 20,
+    bufferDuration = 100,
+    realtime = false,
+    limiter,
+    clipping,
+    ...options
+  }: MixerOptions = {}) {
+    super(options);
+
+    if (typeof type === 'undefined') {
+      throw new Error('Mixer type should be a PCM format');
+    }
+    this.format = getPcmFormat(type);
+    this.frameBytes = this.format.bytes * channels;
+    this.chunkBytes = Math.max(1, Math.round((chunkDuration * rate) / 1000)) * this.frameBytes;
+    // An input must be able to buffer a whole chunk, as the mix waits for it
+    this.bufferBytes = Math.max(this.chunkBytes, Math.round((bufferDuration * rate) / 1000) * this.frameBytes);
+    if (realtime) {
+      this.underrunDelay = chunkDuration;
+    }
+    if (limiter) {
+      this.limiter = new Limiter(limiter === true ? {} : limiter, rate, channels, -this.format.min);
+    }
+    this.softClipping = clipping === 'soft';
+  }
+
+  /**
+   * The inputs of the mixer.
+   */
+  public get inputs(): MixerInput[] {
+    return [...this._inputs];
+  }
+
+  /**
+   * The number of samples that exceeded full scale once mixed, before being limited or clipped.
+   */
+  public get clippedSamples(): number {
+    return this.clipped;
+  }
+
+  /**
+   * Adds an input to the mixer.
+   * @param [options] options that you would pass to a regular Writable stream, plus the volume of the input.
+   * @throws Will throw an error if the mixer has been ended.
+   */
+  public addInput(options: MixerInputOptions = {}): MixerInput {
+    if (this.ending) {
+      throw new Error('Cannot add an input to a mixer that has been ended');
+    }
+    const input = new MixerInput(this.frameBytes, this.bufferBytes, () => this._mix(), options);
+    input.once('close', () => this.removeInput(input));
+    this._inputs.add(input);
+    return input;
+  }
+
+  /**
+   * Removes an input from the mixer, discarding its buffered audio. The input is destroyed.
+   * @param input the input.
+   */
+  public removeInput(input: MixerInput): void {
+    if (!this._inputs.delete(input)) {
+      return;
+    }
+    input.destroy();
+    this._mix();
+  }
+
+  /**
+   * Ends the mixer once all its inputs have ended. No input can be added afterwards.
+   */
+  public end(): void {
+    this.ending = true;
+    this._mix();
+  }
+
+  public _read(): void {
+    this.reading = true;
+    this._mix();
+  }
+
+  public _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    this._clearUnderrun();
+    for (const input of this._inputs) {
+      input.destroy();
+    }
+    this._inputs.clear();
+    super._destroy(error, callback);
+  }
+
+  /**
+   * Mixes and pushes chunks as long as the mixer is read and the inputs have enough audio.
+   */
+  private _mix(): void {
+    // Pushing may read the mixer synchronously
+    if (this.mixing || this.destroyed) {
+      return;
+    }
+    this.mixing = true;
+    while (this.reading) {
+      for (const input of this._inputs) {
+        if (input._drained) {
+          this._inputs.delete(input);
+          input.destroy();
+        }
+      }
+      const length = this._chunkLength();
+      if (length > 0) {
+        this._clearUnderrun();
+        this.reading = this.push(this._mixChunk(length));
+      } else if (this.ending && this._inputs.size === 0) {
+        this._pushEnd();
+      } else {
+        this._waitForUnderrun();
+        break;
+      }
+    }
+    this.mixing = false;
+  }
+
+  /**
+   * Returns the length of the next chunk to mix, or 0 if the inputs don't have enough audio.
+   */
+  private _chunkLength(): number {
+    let length = 0;
+    let waiting = false;
+    let finished = false;
+    for (const input of this._inputs) {
+      length = Math.max(length, input._available);
+      waiting ||= !input._ended && input._available < this.chunkBytes;
+      finished ||= input._ended && input._available > 0;
+    }
+    // Mixing before an input that hasn't ended has a full chunk would misalign it, unless it underruns
+    if (waiting && !this.underrun) {
+      return 0;
+    }
+    if (length >= this.chunkBytes) {
+      return this.chunkBytes;
+    }
+    // The last audio of an input that has ended is mixed even if it is shorter than a chunk
+    return finished ? length : 0;
+  }
+
+  /**
+   * Pads the inputs that are still short of a chunk after the underrun delay, if the mixer is read in real time and
+   * another input has audio to mix.
+   */
+  private _waitForUnderrun(): void {
+    if (typeof this.underrunDelay === 'undefined' || this.underrunTimer || this.underrun) {
+      return;
+    }
+    if (![...this._inputs].some((input) => input._available >= this.chunkBytes || input._ended)) {
+      return;
+    }
+    this.underrunTimer = setTimeout(() => {
+      this.underrunTimer = undefined;
+      this.underrun = true;
+      this._mix();
+    }, this.underrunDelay);
+  }
+
+  /**
+   * Cancels the underrun of the inputs, once a chunk has been mixed.
+   */
+  private _clearUnderrun(): void {
+    if (this.underrunTimer) {
+      clearTimeout(this.underrunTimer);
+      this.underrunTimer = undefined;
+    }
+    this.underrun = false;
+  }
+
+  /**
+   * Mixes a chunk of the inputs.
+   * @param length the length of the chunk in bytes.
+   */
+  private _mixChunk(length: number): Buffer {
+    const { format } = this;
+    const { bytes } = format;
+    const mix = new Float64Array(length / bytes);
+
+    for (const input of this._inputs) {
+      const chunk = input._take(length);
+      if (input.muted) {
+        continue;
+      }
+      for (let i = 0; i < chunk.length; i += bytes) {
+        mix[i / bytes] += input.volume * format.read(chunk, i);
+      }
+    }
+
+    const output = Buffer.allocUnsafe(length);
+    let clipped = 0;
+    let offset = 0;
+    for (const sample of mix) {
+      if (sample > format.max || sample < format.min) {
+        clipped++;
+      }
+      const limited = this.limiter ? this.limiter.process(sample) : sample;
+      if (typeof limited !== 'undefined') {
+        this._writeSample(output, limited, offset);
+        offset += bytes;
+      }
+    }
+
+    if (clipped > 0) {
+      this.clipped += clipped;
+      this.emit('clip', clipped);
+    }
+    return output.slice(0, offset);
+  }
+
+  /**
+   * Pushes the audio remaining in the limiter, and ends the stream.
+   */
+  private _pushEnd(): void {
+    if (this.limiter) {
+      const samples = this.limiter.flush();
+      const buffer = Buffer.allocUnsafe(samples.length * this.format.bytes);
+      samples.forEach((sample, i) => this._writeSample(buffer, sample, i * this.format.bytes));
+      this.push(buffer);
+    }
+    this.push(null);
+    this.reading = false;
+  }
+
+  /**
+   * Writes a sample, soft clipping it if enabled.
+   * @param buffer the buffer.
+   * @param sample the sample.
+   * @param offset the offset of the sample.
+   */
+  private _writeSample(buffer: Buffer, sample: number, offset: number): void {
+    this.format.write(buffer, this.softClipping ? softClip(sample, -this.format.min) : sample, offset);
+  }
+}
@@ -0,0 +1,884 @@
+import { randomBytes } from 'crypto';
+import { Transform, TransformCallback, TransformOptions } from 'stream';
+import { DemuxedPacket } from './DemuxedPacket';
+import { getOpusPacketDuration } from './OpusToc';
+import { openSource, READ_SIZE, SeekableSource, writeFromSource } from './Seekable';
+
+const OGG_PAGE_HEADER_SIZE = 27;
+const OGGS_HEADER = Buffer.from('OggS');
+const STREAM_STRUCTURE_VERSION = 0;
+const MAX_PAGE_SEGMENTS = 255;
+// The recommended amount of audio to decode before a seek target in Opus streams, in 48 kHz samples
+const OPUS_PRE_ROLL = 3840;
+
+const CRC_TABLE = new Uint32Array(256);
+
+for (let i = 0; i < 256; i++) {
+  let r = i << 24;
+  for (let j = 0; j < 8; j++) {
+    r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+  }
+  CRC_TABLE[i] = r >>> 0;
+}
+
+/**
+ * Computes the CRC32 checksum of an Ogg page (polynomial 0x04c11db7, no reflection, initial value 0).
+ * @param buffer the page, with its checksum field set to 0.
+ */
+export function oggCrc32(buffer: Buffer): number {
+  let crc = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    crc = (crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ buffer[i]) & 0xff];
+  }
+  return crc >>> 0;
+}
+
+// Flags of the header_type field of an Ogg page
+const PAGE_FLAGS = {
+  CONTINUED: 0x01,
+  FIRST_PAGE: 0x02,
+  LAST_PAGE: 0x04,
+};
+
+export interface OggBaseMuxerOptions extends TransformOptions {
+  /**
+   * the serial number of the logical bitstream, random by default
+   */
+  serial?: number;
+  /**
+   * the maximum duration of audio in a single page, in milliseconds (defaults to 1000)
+   */
+  pageDuration?: number;
+}
+
+/**
+ * Base class for Ogg muxers (e.g. `opus.OggMuxer`).
+ * **You shouldn't directly instantiate this class, use the `opus.OggMuxer` implementation instead!**
+ */
+export class OggBaseMuxer extends Transform {
+  /**
+   * The serial number of the logical bitstream written by this muxer.
+   */
+  public readonly serial: number;
+
+  /**
+   * The number of granule position units per second (e.g. 48000 for Opus).
+   */
+  protected readonly granuleRate: number = 48000;
+
+  private readonly _pageDuration: number;
+  private _sequence = 0;
+  private _headersWritten = false;
+  private _granulePosition = 0;
+  private _pageGranulePosition = -1;
+  private _pageStartGranulePosition = 0;
+  private _pageFlags = 0;
+  private _endTrim = 0;
+  private _lacingValues: number[] = [];
+  private _pageData: Buffer[] = [];
+
+  /**
+   * Creates a new Ogg muxer.
+   * @param [options] options that you would pass to a regular Transform stream, plus a few more.
+   */
+  public constructor({ serial, pageDuration = 1000, ...options }: OggBaseMuxerOptions = {}) {
+    super({ writableObjectMode: true, ...options });
+
+    this.serial = typeof serial === 'undefined' ? randomBytes(4).readUInt32LE(0) : serial >>> 0;
+    this._pageDuration = pageDuration;
+  }
+
+  public _transform(chunk: Buffer, encoding: BufferEncoding, done: TransformCallback): void {
+    try {
+      this._writeHeaders();
+
+      const pageGranules = this._granulePosition - this._pageStartGranulePosition;
+      if (this._lacingValues.length > 0 && pageGranules * 1000 >= this._pageDuration * this.granuleRate) {
+        this._flushPage();
+      }
+
+      this._granulePosition += this._packetDuration(chunk);
+      this._writePacket(chunk, this._granulePosition);
+    } catch (error) {
+      return done(error);
+    }
+
+    return done();
+  }
+
+  /**
+   * Sets the duration of the padding at the end of the logical bitstream, e.g. the silence added to the last frame by
+   * an encoder, which is trimmed by decoders. It must be set before the muxer ends.
+   * @param duration the duration of the padding, in granule position units.
+   */
+  public setEndTrim(duration: number): void {
+    this._endTrim = duration;
+  }
+
+  public _flush(done: TransformCallback): void {
+    try {
+      this._writeHeaders();
+      // The end trim is given by a last page that ends before its last packet
+      this._pageGranulePosition = Math.max(0, this._granulePosition - this._endTrim);
+      this._flushPage(PAGE_FLAGS.LAST_PAGE);
+    } catch (error) {
+      return done(error);
+    }
+
+    return done();
+  }
+
+  /**
+   * Returns the header packets of the logical bitstream. The first one is written alone on the first page,
+   * the others on the following pages.
+   */
+  protected _headers(): Buffer[] {
+    throw new Error('Method not implemented.');
+  }
+
+  /**
+   * Returns the duration of a packet, in granule position units.
+   * @param packet the packet.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected _packetDuration(packet: Buffer): number {
+    throw new Error('Method not implemented.');
+  }
+
+  /**
+   * Writes the header pages of the logical bitstream if they haven't been written yet.
+   */
+  private _writeHeaders(): void {
+    if (this._headersWritten) {
+      return;
+    }
+    this._headersWritten = true;
+
+    const [first, ...others] = this._headers();
+    this._writePacket(first, 0);
+    this._flushPage(PAGE_FLAGS.FIRST_PAGE);
+    if (others.length > 0) {
+      for (const packet of others) {
+        this._writePacket(packet, 0);
+      }
+      this._flushPage();
+    }
+  }
+
+  /**
+   * Adds a packet to the current page, flushing pages when the segment table is full.
+   * @param packet the packet.
+   * @param granulePosition the granule position once this packet is decoded.
+   */
+  private _writePacket(packet: Buffer, granulePosition: number): void {
+    let offset = 0;
+    let remaining = packet.length;
+
+    for (;;) {
+      if (this._lacingValues.length === MAX_PAGE_SEGMENTS) {
+        this._flushPage();
+        if (offset > 0) {
+          this._pageFlags |= PAGE_FLAGS.CONTINUED;
+        }
+      }
+
+      const value = Math.min(remaining, 255);
+      this._lacingValues.push(value);
+      this._pageData.push(packet.slice(offset, offset + value));
+      offset += value;
+      remaining -= value;
+
+      if (value < 255) {
+        break;
+      }
+    }
+
+    this._pageGranulePosition = granulePosition;
+  }
+
+  /**
+   * Writes the current page.
+   * @param [flags=0] extra flags of the page.
+   */
+  private _flushPage(flags = 0): void {
+    const segments = this._lacingValues.length;
+    const data = Buffer.concat(this._pageData);
+    const page = Buffer.alloc(27 + segments + data.length);
+
+    OGGS_HEADER.copy(page, 0);
+    page.writeUInt8(STREAM_STRUCTURE_VERSION, 4);
+    page.writeUInt8(this._pageFlags | flags, 5);
+    page.writeBigInt64LE(BigInt(this._pageGranulePosition), 6);
+    page.writeUInt32LE(this.serial, 14);
+    page.writeUInt32LE(this._sequence++, 18);
+    page.writeUInt8(segments, 26);
+    Buffer.from(this._lacingValues).copy(page, 27);
+    data.copy(page, 27 + segments);
+    page.writeUInt32LE(oggCrc32(page), 22);
+
+    this.push(page);
+
+    this._pageFlags = 0;
+    this._pageGranulePosition = -1;
+    this._pageStartGranulePosition = this._granulePosition;
+    this._lacingValues = [];
+    this._pageData = [];
+  }
+}
+
+/**
+ * A codec that can be detected from the first packet of a logical bitstream.
+ */
+export type OggCodec = 'opus' | 'vorbis' | 'flac' | 'speex' | 'unknown';
+
+const CODEC_SIGNATURES: [Exclude<OggCodec, 'unknown'>, Buffer][] = [
+  ['opus', Buffer.from('OpusHead')],
+  ['vorbis', Buffer.from('\x01vorbis', 'latin1')],
+  ['flac', Buffer.from('\x7fFLAC', 'latin1')],
+  ['speex', Buffer.from('Speex   ')],
+];
+
+/**
+ * Detects the codec of a logical bitstream from its first packet.
+ * @param packet the first packet of the logical bitstream.
+ */
+export function detectOggCodec(packet: Buffer): OggCodec {
+  for (const [codec, signature] of CODEC_SIGNATURES) {
+    if (packet.slice(0, signature.length).equals(signature)) {
+      return codec;
+    }
+  }
+  return 'unknown';
+}
+
+/**
+ * A logical bitstream of an Ogg stream.
+ */
+export interface OggBitstream {
+  /**
+   * the serial number of the logical bitstream
+   */
+  serial: number;
+  /**
+   * the codec detected from the first packet of the logical bitstream
+   */
+  codec: OggCodec;
+  /**
+   * the number of granule position units per second, if it could be read from the first packet
+   */
+  rate?: number;
+  /**
+   * the granule position at which playback starts (the pre-skip of Opus streams), if the rate is known
+   */
+  preSkip?: number;
+}
+
+/**
+ * Describes a logical bitstream from its first packet.
+ * @param serial the serial number of the logical bitstream.
+ * @param packet the first packet of the logical bitstream.
+ */
+function describeOggBitstream(serial: number, packet: Buffer): OggBitstream {
+  const codec = detectOggCodec(packet);
+
+  if (codec === 'opus' && packet.length >= 12) {
+    return { serial, codec, rate: 48000, preSkip: packet.readUInt16LE(10) };
+  } else if (codec === 'vorbis' && packet.length >= 16) {
+    return { serial, codec, rate: packet.readUInt32LE(12), preSkip: 0 };
+  } else if (codec === 'flac' && packet.length >= 30) {
+    // The sample rate is stored on 20 bits in the STREAMINFO block that follows the Ogg FLAC header
+    return { serial, codec, rate: (packet[27] << 12) | (packet[28] << 4) | (packet[29] >> 4), preSkip: 0 };
+  } else if (codec === 'speex' && packet.length >= 40) {
+    return { serial, codec, rate: packet.readUInt32LE(36), preSkip: 0 };
+  }
+  return { serial, codec };
+}
+
+interface OggPageInfo {
+  offset: number;
+  length: number;
+  flags: number;
+  granulePosition: number;
+  serial: number;
+  firstPacket: Buffer;
+}
+
+/**
+ * Finds the valid pages of a seekable source, skipping any data that isn't a page.
+ * @param source the source to read from.
+ * @param position the position to start looking from.
+ * @param end the position to stop looking at.
+ */
+async function* findOggPages(source: SeekableSource, position: number, end: number): AsyncGenerator<OggPageInfo> {
+  let buffer = Buffer.alloc(0);
+  let bufferPosition = position;
+  let index = 0;
+
+  while (bufferPosition + index < end) {
+    const length = oggPageLength(buffer, index);
+    if (length === false) {
+      // Not enough data to read the page
+      const data = await source.read(bufferPosition + buffer.length, READ_SIZE);
+      if (data.length === 0) {
+        return;
+      }
+      buffer = Buffer.concat([buffer.slice(index), data]);
+      bufferPosition += index;
+      index = 0;
+      continue;
+    }
+
+    const page = Buffer.from(buffer.slice(index, index + length));
+    if (length > 0 && oggCrc32(page.fill(0, 22, 26)) === buffer.readUInt32LE(index + 22)) {
+      const pageSegments = page.readUInt8(26);
+      let firstPacketLength = 0;
+      for (let i = 0; i < pageSegments; i++) {
+        firstPacketLength += page[OGG_PAGE_HEADER_SIZE + i];
+        if (page[OGG_PAGE_HEADER_SIZE + i] < 255) {
+          break;
+        }
+      }
+      const dataStart = OGG_PAGE_HEADER_SIZE + pageSegments;
+      yield {
+        offset: bufferPosition + index,
+        length,
+        flags: page.readUInt8(5),
+        granulePosition: Number(page.readBigInt64LE(6)),
+        serial: page.readUInt32LE(14),
+        firstPacket: page.slice(dataStart, dataStart + firstPacketLength),
+      };
+      index += length;
+    } else {
+      const next = buffer.indexOf(OGGS_HEADER, index + 1);
+      index = next === -1 ? Math.max(index + 1, buffer.length - (OGGS_HEADER.length - 1)) : next;
+    }
+  }
+}
+
+/**
+ * Gets the length of the page at an offset of a buffer.
+ * @param buffer the buffer.
+ * @param offset the offset of the page.
+ * @returns the length of the page, 0 if there is no page at this offset, or false if the buffer isn't large enough.
+ */
+function oggPageLength(buffer: Buffer, offset: number): number | false {
+  if (buffer.length < offset + OGG_PAGE_HEADER_SIZE) {
+    return false;
+  }
+  if (!buffer.slice(offset, offset + 4).equals(OGGS_HEADER) || buffer[offset + 4] !== STREAM_STRUCTURE_VERSION) {
+    return 0;
+  }
+  const pageSegments = buffer.readUInt8(offset + 26);
+  if (buffer.length < offset + OGG_PAGE_HEADER_SIZE + pageSegments) {
+    return false;
+  }
+  const table = buffer.slice(offset + OGG_PAGE_HEADER_SIZE, offset + OGG_PAGE_HEADER_SIZE + pageSegments);
+  const length = OGG_PAGE_HEADER_SIZE + pageSegments + table.reduce((total, size) => total + size, 0);
+  return buffer.length < offset + length ? false : length;
+}
+
+/**
+ * A packet of a logical bitstream.
+ */
+export interface OggPacket {
+  /**
+   * the serial number of the logical bitstream of the packet
+   */
+  serial: number;
+  /**
+   * the data of the packet
+   */
+  data: Buffer;
+  /**
+   * the granule position of the page if this is the last packet completed on it, otherwise -1
+   */
+  granulePosition: number;
+  /**
+   * the presentation time of the packet in milliseconds, if the rate of the logical bitstream is known
+   */
+  timestamp?: number;
+  /**
+   * the duration of the packet in milliseconds, if it can be read from the packet (only for Opus)
+   */
+  duration?: number;
+}
+
+/**
+ * Gets the duration of a packet in milliseconds, if the codec of its logical bitstream allows it.
+ * @param bitstream the logical bitstream of the packet.
+ * @param packet the packet.
+ */
+function oggPacketDuration(bitstream: OggBitstream, packet: Buffer): number | undefined {
+  return bitstream.codec === 'opus' ? getOpusPacketDuration(packet) : undefined;
+}
+
+/**
+ * Finds the last granule position of a logical bitstream, looking at the end of a seekable source.
+ * @param source the source to read from.
+ * @param start the position of the first audio page.
+ * @param end the size of the source.
+ * @param serial the serial number of the logical bitstream.
+ */
+async function findLastGranulePosition(
+  source: SeekableSource,
+  start: number,
+  end: number,
+  serial: number,
+): Promise<number | undefined> {
+  for (let length = READ_SIZE; ; length *= 2) {
+    const position = Math.max(start, end - length);
+    let granulePosition: number | undefined;
+    for await (const page of findOggPages(source, position, end)) {
+      if (page.serial === serial && page.granulePosition !== -1) {
+        granulePosition = page.granulePosition;
+      }
+    }
+    if (typeof granulePosition !== 'undefined' || position === start) {
+      return granulePosition;
+    }
+  }
+}
+
+/**
+ * Finds the first page of a logical bitstream whose granule position is at least a given one, by bisection.
+ * @param source the source to read from.
+ * @param start the position of the first audio page.
+ * @param end the size of the source.
+ * @param serial the serial number of the logical bitstream.
+ * @param granulePosition the granule position to look for.
+ * @returns the position of the page, or the end of the source if there is none.
+ */
+async function bisectOggPages(
+  source: SeekableSource,
+  start: number,
+  end: number,
+  serial: number,
+  granulePosition: number,
+): Promise<number> {
+  let low = start;
+  let high = end;
+
+  while (high - low > READ_SIZE) {
+    const middle = Math.floor((low + high) / 2);
+    let found: OggPageInfo | undefined;
+    for await (const page of findOggPages(source, middle, high)) {
+      if (page.serial === serial && page.granulePosition !== -1) {
+        found = page;
+        break;
+      }
+    }
+
+    if (!found) {
+      high = middle;
+    } else if (found.granulePosition < granulePosition) {
+      low = found.offset + found.length;
+    } else {
+      high = found.offset;
+    }
+  }
+
+  for await (const page of findOggPages(source, low, end)) {
+    if (page.serial === serial && page.granulePosition >= granulePosition) {
+      return page.offset;
+    }
+  }
+  return end;
+}
+
+export interface OggBaseDemuxerOptions extends TransformOptions {
+  /**
+   * whether to verify the checksum of each page, and to skip corrupted pages and misaligned data instead of erroring
+   * out (defaults to false)
+   */
+  resync?: boolean;
+  /**
+   * whether to output `DemuxedPacket` objects (containing the data, the timestamp, the duration, the serial number
+   * as the track number and no flags) instead of buffers (defaults to false)
+   */
+  metadata?: boolean;
+}
+
+/**
+ * Base class for Ogg demuxers (e.g. `OggDemuxer`, `opus.OggDemuxer` and `vorbis.OggDemuxer`).
+ * **You shouldn't directly instantiate this class, use one of its implementations instead!**
+ */
+export class OggBaseDemuxer extends Transform {
+  private readonly _resync: boolean;
+  private readonly _metadata: boolean;
+  private _duration?: number;
+  private _remainder?: Buffer;
+  private _position = 0;
+  private _discarded = 0;
+  private _bitstreams = new Map<number, OggBitstream>();
+  private _selected = new Set<number>();
+  private _sequenceNumbers = new Map<number, number>();
+  private _partialPackets = new Map<number, Buffer[]>();
+  private _pageTimestamps = new Map<number, number>();
+
+  /**
+   * Creates a new Ogg demuxer.
+   * @param [options] options that you would pass to a regular Transform stream, plus the `resync` and `metadata`
+   * options. When `resync` is enabled, a `corruptPage` event is emitted with the offset and the length of each page
+   * whose checksum is invalid, and a `resync` event is emitted with the offset and the number of bytes discarded to
+   * find the next page.
+   */
+  public constructor({ resync = false, metadata = false, ...options }: OggBaseDemuxerOptions = {}) {
+    super({ readableObjectMode: true, ...options });
+
+    this._resync = resync;
+    this._metadata = metadata;
+  }
+
+  /**
+   * The logical bitstreams that are currently being read, by serial number.
+   */
+  public get bitstreams(): ReadonlyMap<number, OggBitstream> {
+    return this._bitstreams;
+  }
+
+  /**
+   * The serial numbers of the logical bitstreams whose packets are output.
+   */
+  protected get selected(): ReadonlySet<number> {
+    return this._selected;
+  }
+
+  /**
+   * The duration in milliseconds of the selected logical bitstream, derived from its last granule position.
+   * It is only known once `seek` has started reading a source.
+   */
+  public get duration(): number | undefined {
+    return this._duration;
+  }
+
+  /**
+   * Reads a seekable source from a given time, instead of having data piped into the demuxer. The header pages are
+   * read first, then the first page of the selected logical bitstream that ends after the requested time is found
+   * by bisection of the granule positions, and the data is read from there. The demuxer is ended once the whole
+   * source has been read.
+   * @param source the path of a file, or a seekable source.
+   * @param [time=0] the time to start from, in milliseconds.
+   * @example
+   * const demuxer = new prism.opus.OggDemuxer();
+   * demuxer.pipe(new prism.opus.Decoder({ rate: 48000, channels: 2, frameSize: 960 })).pipe(output);
+   * // Start playback at 3:20
+   * await demuxer.seek('./audio.ogg', 200000);
+   */
+  public async seek(source: string | SeekableSource, time = 0): Promise<void> {
+    const reader = openSource(source);
+
+    try {
+      const size = await reader.size();
+      const bitstreams: OggBitstream[] = [];
+      let audioStart = size;
+      for await (const page of findOggPages(reader, 0, size)) {
+        if (page.flags & PAGE_FLAGS.FIRST_PAGE) {
+          bitstreams.push(describeOggBitstream(page.serial, page.firstPacket));
+        } else if (page.granulePosition > 0) {
+          audioStart = page.offset;
+          break;
+        }
+      }
+
+      // The bitstream is chosen before any page is demuxed, as selecting it may depend on what is already selected
+      const bitstream = bitstreams.find((bitstream) => bitstream.rate && this._selectBitstream(bitstream));
+      await writeFromSource(this, reader, 0, audioStart);
+
+      let position = audioStart;
+      if (bitstream?.rate) {
+        const { serial, rate, preSkip = 0 } = bitstream;
+        const lastGranulePosition = await findLastGranulePosition(reader, audioStart, size, serial);
+        if (typeof lastGranulePosition !== 'undefined') {
+          this._duration = ((lastGranulePosition - preSkip) * 1000) / rate;
+        }
+        if (time > 0) {
+          // Opus needs some audio to be decoded before the requested time to converge
+          const preRoll = bitstream.codec === 'opus' ? OPUS_PRE_ROLL : 0;
+          const granulePosition = preSkip + Math.max(0, Math.floor((time * rate) / 1000) - preRoll);
+          position = await bisectOggPages(reader, audioStart, size, serial, granulePosition);
+        }
+      }
+
+      await writeFromSource(this, reader, position);
+      this.end();
+    } finally {
+      if (typeof source === 'string') {
+        await reader.close?.();
+      }
+    }
+  }
+
+  public _transform(chunk: Buffer, encoding: BufferEncoding, done: TransformCallback): void {
+    if (this._remainder) {
+      chunk = Buffer.concat([this._remainder, chunk]);
+      this._remainder = undefined;
+    }
+
+    try {
+      while (chunk) {
+        const result = this._readPage(chunk);
+        if (!result) {
+          break;
+        }
+        chunk = result;
+      }
+    } catch (error) {
+      return done(error);
+    }
+    this._remainder = chunk;
+    done();
+  }
+
+  /**
+   * Reads a page from a buffer
+   * @param chunk the chunk containing the page
+   * @returns if a buffer, it will be a slice of the excess data of the original, otherwise it will be
+   * false and would indicate that there is not enough data to go ahead with reading this page.
+   */
+  private _readPage(chunk: Buffer): Buffer | false {
+    if (chunk.length < OGG_PAGE_HEADER_SIZE) {
+      return false;
+    }
+    if (!chunk.slice(0, 4).equals(OGGS_HEADER)) {
+      if (this._resync) {
+        return this._skip(chunk);
+      }
+      throw Error(`capture_pattern is not ${OGGS_HEADER}.`);
+    }
+    if (chunk.readUInt8(4) !== STREAM_STRUCTURE_VERSION) {
+      if (this._resync) {
+        return this._skip(chunk);
+      }
+      throw Error(`stream_structure_version is not ${STREAM_STRUCTURE_VERSION}.`);
+    }
+
+    const pageSegments = chunk.readUInt8(26);
+    if (chunk.length < OGG_PAGE_HEADER_SIZE + pageSegments) {
+      return false;
+    }
+    const table = chunk.slice(OGG_PAGE_HEADER_SIZE, OGG_PAGE_HEADER_SIZE + pageSegments);
+    const totalSize = table.reduce((total, size) => total + size, 0);
+    const length = OGG_PAGE_HEADER_SIZE + pageSegments + totalSize;
+    if (chunk.length < length) {
+      return false;
+    }
+
+    if (this._resync) {
+      const page = Buffer.from(chunk.slice(0, length));
+      page.writeUInt32LE(0, 22);
+      if (oggCrc32(page) !== chunk.readUInt32LE(22)) {
+        this.emit('corruptPage', { offset: this._position, length });
+        return this._skip(chunk);
+      }
+    }
+    if (this._discarded > 0) {
+      this.emit('resync', { offset: this._position - this._discarded, discarded: this._discarded });
+      this._discarded = 0;
+    }
+
+    const flags = chunk.readUInt8(5);
+    const granulePosition = Number(chunk.readBigInt64LE(6));
+    const serial = chunk.readUInt32LE(14);
+    const sequenceNumber = chunk.readUInt32LE(18);
+
+    // The first packet of this page is the end of the last packet of the previous page, if it was incomplete
+    let pieces = this._partialPackets.get(serial) ?? [];
+    this._partialPackets.delete(serial);
+    // If the previous page was lost, the continued packet can't be reassembled
+    if (!(flags & PAGE_FLAGS.CONTINUED) || this._sequenceNumbers.get(serial) !== sequenceNumber - 1) {
+      pieces = [];
+    }
+    // Timestamps can't be counted from the previous page if some pages were lost or skipped
+    if (this._sequenceNumbers.get(serial) !== sequenceNumber - 1) {
+      this._pageTimestamps.delete(serial);
+    }
+    let skip = flags & PAGE_FLAGS.CONTINUED && pieces.length === 0;
+    this._sequenceNumbers.set(serial, sequenceNumber);
+
+    const packets: Buffer[] = [];
+    let start = OGG_PAGE_HEADER_SIZE + pageSegments;
+    let size = 0;
+    for (const lacingValue of table) {
+      size += lacingValue;
+      if (lacingValue < 255) {
+        const piece = chunk.slice(start, start + size);
+        if (!skip) {
+          packets.push(pieces.length > 0 ? Buffer.concat([...pieces, piece]) : piece);
+        }
+        pieces = [];
+        skip = false;
+        start += size;
+        size = 0;
+      }
+    }
+    // The last packet continues on the next page
+    if (size > 0 && !skip) {
+      this._partialPackets.set(serial, [...pieces, chunk.slice(start, start + size)]);
+    }
+    start += size;
+
+    if (packets.length > 0 && !this._bitstreams.has(serial)) {
+      this._addBitstream(serial, packets[0]);
+    }
+    const times = this._packetTimes(serial, packets, granulePosition, Boolean(flags & PAGE_FLAGS.LAST_PAGE));
+    for (const [i, data] of packets.entries()) {
+      this._processPacket({
+        serial,
+        data,
+        granulePosition: i === packets.length - 1 ? granulePosition : -1,
+        ...times[i],
+      });
+    }
+
+    if (flags & PAGE_FLAGS.LAST_PAGE) {
+      this._partialPackets.delete(serial);
+      this._pageTimestamps.delete(serial);
+      this._sequenceNumbers.delete(serial);
+      this._bitstreams.delete(serial);
+      this._selected.delete(serial);
+    }
+
+    this._position += start;
+    return chunk.slice(start);
+  }
+
+  /**
+   * Discards data until the next capture pattern.
+   * @param chunk the chunk, which doesn't start with a valid page.
+   * @returns a slice of the chunk starting with the next capture pattern, or its last bytes if none was found.
+   */
+  private _skip(chunk: Buffer): Buffer {
+    let index = chunk.indexOf(OGGS_HEADER, 1);
+    if (index === -1) {
+      // The end of the chunk could be the start of a capture pattern
+      index = Math.max(1, chunk.length - (OGGS_HEADER.length - 1));
+    }
+    this._discarded += index;
+    this._position += index;
+    return chunk.slice(index);
+  }
+
+  /**
+   * Registers a new logical bitstream.
+   * @param serial the serial number of the logical bitstream.
+   * @param packet the first packet of the logical bitstream.
+   */
+  private _addBitstream(serial: number, packet: Buffer): void {
+    const bitstream = describeOggBitstream(serial, packet);
+    this._bitstreams.set(serial, bitstream);
+    this.emit('bitstream', bitstream);
+    if (this._selectBitstream(bitstream)) {
+      this._selected.add(serial);
+    }
+  }
+
+  /**
+   * Computes the timestamps and the durations of the packets completed on a page. The timestamps are counted from
+   * the end of the previous page when it is known, or back from the granule position of the page otherwise. When the
+   * durations of the packets are unknown, they all get the timestamp of the start of the page.
+   * @param serial the serial number of the logical bitstream.
+   * @param packets the packets completed on the page.
+   * @param granulePosition the granule position of the page.
+   * @param lastPage whether this is the last page of the logical bitstream, whose granule position can end before
+   * its last packet to trim the padding of the audio.
+   */
+  private _packetTimes(
+    serial: number,
+    packets: Buffer[],
+    granulePosition: number,
+    lastPage: boolean,
+  ): { timestamp?: number; duration?: number }[] {
+    const bitstream = this._bitstreams.get(serial);
+    if (!bitstream?.rate || granulePosition === -1) {
+      return packets.map(() => ({}));
+    }
+
+    const end = ((granulePosition - (bitstream.preSkip ?? 0)) * 1000) / bitstream.rate;
+    const start = this._pageTimestamps.get(serial);
+    this._pageTimestamps.set(serial, end);
+    // Pages with a granule position of 0 only contain header packets
+    if (granulePosition === 0) {
+      return packets.map(() => ({ timestamp: end, duration: 0 }));
+    }
+
+    const durations = packets.map((packet) => oggPacketDuration(bitstream, packet));
+    if (!durations.every((duration): duration is number => typeof duration === 'number')) {
+      return durations.map((duration) => ({ timestamp: start ?? end, duration }));
+    }
+
+    let timestamp = start ?? end - durations.reduce((total, duration) => total + duration, 0);
+    return durations.map((duration) => {
+      const packetTimestamp = timestamp;
+      timestamp += duration;
+      if (lastPage) {
+        duration = Math.max(0, Math.min(duration, end - packetTimestamp));
+      }
+      return { timestamp: packetTimestamp, duration };
+    });
+  }
+
+  /**
+   * Processes a complete packet.
+   * @param packet the packet.
+   */
+  private _processPacket(packet: OggPacket): void {
+    if (this._selected.has(packet.serial)) {
+      this._readPacket(packet);
+    } else {
+      this.emit('unknownSegment', packet.data);
+    }
+  }
+
+  /**
+   * Decides whether the packets of a new logical bitstream should be output.
+   * @param bitstream the logical bitstream.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected _selectBitstream(bitstream: OggBitstream): boolean {
+    throw new Error('Method not implemented.');
+  }
+
+  /**
+   * Handles a packet of a selected logical bitstream.
+   * @param packet the packet.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected _readPacket(packet: OggPacket): void {
+    throw new Error('Method not implemented.');
+  }
+
+  /**
+   * Outputs the data of a packet, or a `DemuxedPacket` object if the `metadata` option is enabled.
+   * @param packet the packet.
+   */
+  protected _pushPacket({ serial, data, timestamp = 0, duration }: OggPacket): void {
+    const packet: DemuxedPacket = { data, timestamp, duration, trackNumber: serial, flags: 0 };
+    this.push(this._metadata ? packet : data);
+  }
+
+  public _destroy(error: Error | null, callback: (error: Error | null) => void): void {
+    this.cleanup();
+    callback(error);
+  }
+
+  public _final(callback: () => void): void {
+    if (this._discarded > 0) {
+      this.emit('resync', { offset: this._position - this._discarded, discarded: this._discarded });
+    }
+    this.cleanup();
+    callback();
+  }
+
+  /**
+   * Cleans up the demuxer when it is no longer required.
+   */
+  private cleanup() {
+    this._remainder = undefined;
+    this._discarded = 0;
+    this._bitstreams.clear();
+    this._selected.clear();
+    this._sequenceNumbers.clear();
+    this._partialPackets.clear();
+    this._pageTimestamps.clear();
+  }
+}
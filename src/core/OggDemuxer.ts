@@ -0,0 +1,53 @@
+import { OggBaseDemuxer, OggBaseDemuxerOptions, OggBitstream, OggPacket } from './OggBase';
+
+export type { OggBitstream, OggCodec, OggPacket } from './OggBase';
+
+interface OggDemuxerOptions extends Omit<OggBaseDemuxerOptions, 'metadata'> {
+  /**
+   * the serial numbers of the logical bitstreams to output, or a function that decides whether a logical bitstream
+   * should be output (defaults to all of them)
+   */
+  bitstreams?: number[] | ((bitstream: OggBitstream) => boolean);
+}
+
+/**
+ * Demuxes an Ogg stream, whatever the codecs of its logical bitstreams are, to output `OggPacket` objects
+ * (containing the serial number of the logical bitstream, the data, the granule position and, when they can be
+ * computed, the timestamp and the duration of each packet).
+ *
+ * A `bitstream` event is emitted with an `OggBitstream` object (containing the serial number and the detected codec)
+ * whenever a logical bitstream begins, which makes this suitable for chained and multiplexed streams.
+ * @example
+ * const fs = require('fs');
+ * const demuxer = new prism.OggDemuxer({ bitstreams: ({ codec }) => codec === 'opus' });
+ * demuxer.on('bitstream', ({ serial, codec }) => console.log(`Found a ${codec} bitstream (${serial})`));
+ * fs.createReadStream('./radio.ogg')
+ *   .pipe(demuxer)
+ *   .on('data', ({ serial, data, granulePosition }) => console.log(serial, data.length, granulePosition));
+ */
+export class OggDemuxer extends OggBaseDemuxer {
+  private readonly select: (bitstream: OggBitstream) => boolean;
+
+  /**
+   * Creates a new Ogg demuxer.
+   * @param [options] options that you would pass to a regular Transform stream, plus the `bitstreams` and `resync`
+   * options.
+   */
+  public constructor({ bitstreams, ...options }: OggDemuxerOptions = {}) {
+    super(options);
+
+    if (Array.isArray(bitstreams)) {
+      this.select = ({ serial }) => bitstreams.includes(serial);
+    } else {
+      this.select = bitstreams ?? (() => true);
+    }
+  }
+
+  protected _selectBitstream(bitstream: OggBitstream): boolean {
+    return this.select(bitstream);
+  }
+
+  protected _readPacket(packet: OggPacket): void {
+    this.push(packet);
+  }
+}
@@ -0,0 +1,53 @@
+// Frame durations in units of 48 kHz samples, by mode (RFC 6716, section 3.1)
+const SILK_FRAME_SAMPLES = [480, 960, 1920, 2880];
+const HYBRID_FRAME_SAMPLES = [480, 960];
+const CELT_FRAME_SAMPLES = [120, 240, 480, 960];
+
+/**
+ * Gets the number of samples (at 48 kHz) contained in an Opus packet by reading its TOC byte.
+ * @param packet the Opus packet.
+ * @throws Will throw an error if the packet is malformed.
+ */
+export function getPacketSamples(packet: Buffer): number {
+  if (packet.length < 1) {
+    throw new Error('Invalid Opus packet: packet is empty');
+  }
+
+  const toc = packet[0];
+  let frames: number;
+
+  switch (toc & 0x3) {
+    case 0:
+      frames = 1;
+      break;
+    case 1:
+    case 2:
+      frames = 2;
+      break;
+    default:
+      if (packet.length < 2) {
+        throw new Error('Invalid Opus packet: missing frame count byte');
+      }
+      frames = packet[1] & 0x3f;
+  }
+
+  const config = toc >> 3;
+  if (config < 12) {
+    return frames * SILK_FRAME_SAMPLES[config & 0x3];
+  } else if (config < 16) {
+    return frames * HYBRID_FRAME_SAMPLES[config & 0x1];
+  }
+  return frames * CELT_FRAME_SAMPLES[config & 0x3];
+}
+
+/**
+ * Gets the duration of an Opus packet in milliseconds, without throwing if it is malformed.
+ * @param packet the Opus packet.
+ */
+export function getOpusPacketDuration(packet: Buffer): number | undefined {
+  try {
+    return getPacketSamples(packet) / 48;
+  } catch {
+    return undefined;
+  }
+}
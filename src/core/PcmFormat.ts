@@ -0,0 +1,137 @@
+/**
+ * The name of a PCM sample format, as used by FFmpeg.
+ */
+export type PcmType = 'u8' | 's16le' | 's16be' | 's24le' | 's24be' | 's32le' | 's32be' | 'f32le' | 'f32be' | 'f64le';
+
+/**
+ * The description of a PCM sample format, which is accepted by the streams that process PCM audio.
+ */
+export interface PcmFormat {
+  /**
+   * the name of the format
+   */
+  type: PcmType;
+  /**
+   * the size of a sample in bytes
+   */
+  bytes: number;
+  /**
+   * whether the samples are floating-point numbers
+   */
+  float: boolean;
+  /**
+   * the minimum value of a sample (-1 for floating-point formats), to which lower values are clipped
+   */
+  min: number;
+  /**
+   * the maximum value of a sample (1 for floating-point formats), to which higher values are clipped
+   */
+  max: number;
+  /**
+   * Reads a sample. The samples of unsigned formats are centred on 0, e.g. 128 is read as 0 in `u8`.
+   * @param buffer the buffer.
+   * @param offset the offset of the sample.
+   */
+  read(buffer: Buffer, offset: number): number;
+  /**
+   * Writes a sample, clipping it to the range of the format and rounding it down for integer formats.
+   * @param buffer the buffer.
+   * @param value the value of the sample.
+   * @param offset the offset of the sample.
+   */
+  write(buffer: Buffer, value: number, offset: number): void;
+}
+
+function integerFormat(type: PcmType, bytes: number, littleEndian: boolean, signed = true): PcmFormat {
+  const max = 2 ** (bytes * 8 - 1);
+  // Unsigned samples are stored with an offset of half their range
+  const bias = signed ? 0 : max;
+  const read = signed
+    ? littleEndian
+      ? (buffer: Buffer, offset: number) => buffer.readIntLE(offset, bytes)
+      : (buffer: Buffer, offset: number) => buffer.readIntBE(offset, bytes)
+    : (buffer: Buffer, offset: number) => buffer.readUIntLE(offset, bytes) - bias;
+  const write = signed
+    ? littleEndian
+      ? (buffer: Buffer, value: number, offset: number) => buffer.writeIntLE(value, offset, bytes)
+      : (buffer: Buffer, value: number, offset: number) => buffer.writeIntBE(value, offset, bytes)
+    : (buffer: Buffer, value: number, offset: number) => buffer.writeUIntLE(value + bias, offset, bytes);
+
+  return {
+    type,
+    bytes,
+    float: false,
+    min: -max,
+    max: max - 1,
+    read,
+    write: (buffer, value, offset) => {
+      write(buffer, Math.min(max - 1, Math.max(-max, Math.floor(value))), offset);
+    },
+  };
+}
+
+function floatFormat(
+  type: PcmType,
+  bytes: number,
+  read: (buffer: Buffer, offset: number) => number,
+  write: (buffer: Buffer, value: number, offset: number) => void,
+): PcmFormat {
+  return {
+    type,
+    bytes,
+    float: true,
+    min: -1,
+    max: 1,
+    read,
+    write: (buffer, value, offset) => {
+      // NaN is written as silence rather than propagated
+      write(buffer, Number.isNaN(value) ? 0 : Math.min(1, Math.max(-1, value)), offset);
+    },
+  };
+}
+
+/**
+ * The supported PCM sample formats.
+ */
+export const PCM_FORMATS: Readonly<Record<PcmType, PcmFormat>> = {
+  u8: integerFormat('u8', 1, true, false),
+  s16le: integerFormat('s16le', 2, true),
+  s16be: integerFormat('s16be', 2, false),
+  s24le: integerFormat('s24le', 3, true),
+  s24be: integerFormat('s24be', 3, false),
+  s32le: integerFormat('s32le', 4, true),
+  s32be: integerFormat('s32be', 4, false),
+  f32le: floatFormat(
+    'f32le',
+    4,
+    (buffer, offset) => buffer.readFloatLE(offset),
+    (buffer, value, offset) => buffer.writeFloatLE(value, offset),
+  ),
+  f32be: floatFormat(
+    'f32be',
+    4,
+    (buffer, offset) => buffer.readFloatBE(offset),
+    (buffer, value, offset) => buffer.writeFloatBE(value, offset),
+  ),
+  f64le: floatFormat(
+    'f64le',
+    8,
+    (buffer, offset) => buffer.readDoubleLE(offset),
+    (buffer, value, offset) => buffer.writeDoubleLE(value, offset),
+  ),
+};
+
+/**
+ * Gets the description of a PCM sample format.
+ * @param format the name of the format, or its description which is returned as is.
+ * @throws Will throw an error if the format isn't supported.
+ */
+export function getPcmFormat(format: string | PcmFormat): PcmFormat {
+  if (typeof format !== 'string') {
+    return format;
+  }
+  if (!Object.prototype.hasOwnProperty.call(PCM_FORMATS, format)) {
+    throw new Error(`PCM format should be one of ${Object.keys(PCM_FORMATS).join(', ')}`);
+  }
+  return PCM_FORMATS[format as PcmType];
+}
@@ -0,0 +1,89 @@
+import { promises as fs } from 'fs';
+import { Writable } from 'stream';
+
+/**
+ * A source of data that can be read at any position, e.g. a file.
+ */
+export interface SeekableSource {
+  /**
+   * Returns the total size of the source, in bytes.
+   */
+  size(): Promise<number>;
+  /**
+   * Reads data from the source. Less data than requested is returned at the end of the source.
+   * @param position the position to read from.
+   * @param length the number of bytes to read.
+   */
+  read(position: number, length: number): Promise<Buffer>;
+  /**
+   * Releases the resources used by the source, if any.
+   */
+  close?(): Promise<void>;
+}
+
+// The amount of data read at once from seekable sources
+export const READ_SIZE = 64 * 1024;
+
+/**
+ * Creates a seekable source that reads from a file.
+ * @param path the path of the file.
+ */
+function fileSource(path: string): SeekableSource {
+  const handle = fs.open(path, 'r');
+
+  return {
+    async size() {
+      return (await (await handle).stat()).size;
+    },
+    async read(position, length) {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await (await handle).read(buffer, 0, length, position);
+      return buffer.slice(0, bytesRead);
+    },
+    async close() {
+      await (await handle).close();
+    },
+  };
+}
+
+/**
+ * Opens a seekable source, which can be given as a file path.
+ * @param source the path of a file or a seekable source.
+ */
+export function openSource(source: string | SeekableSource): SeekableSource {
+  return typeof source === 'string' ? fileSource(source) : source;
+}
+
+/**
+ * Writes the data of a seekable source to a stream, from a position to the end of the source, respecting
+ * backpressure. The stream is not ended.
+ * @param stream the stream to write to.
+ * @param source the source to read from.
+ * @param position the position to start reading from.
+ * @param [end] the position to stop reading at (defaults to the end of the source).
+ */
+export async function writeFromSource(
+  stream: Writable,
+  source: SeekableSource,
+  position: number,
+  end = Infinity,
+): Promise<void> {
+  while (position < end && !stream.destroyed) {
+    const data = await source.read(position, Math.min(READ_SIZE, end - position));
+    if (data.length === 0) {
+      break;
+    }
+    position += data.length;
+    if (!stream.write(data)) {
+      await new Promise<void>((resolve) => {
+        const next = () => {
+          stream.off('drain', next);
+          stream.off('close', next);
+          resolve();
+        };
+        stream.on('drain', next);
+        stream.on('close', next);
+      });
+    }
+  }
+}
@@ -1,28 +1,80 @@
 // Based on discord.js' old volume system
 
 import { Transform, TransformCallback, TransformOptions } from 'stream';
+import { Limiter, LimiterOptions, softClip } from './Limiter';
+import { getPcmFormat, PcmFormat } from './PcmFormat';
 
 const AMPLITUDE_RATIO = 1.660964047443681;
 
+// The volume that exponential ramps start from or end at instead of silence, i.e. -60 dB
+const MIN_EXPONENTIAL_VOLUME = 0.001;
+
+/**
+ * The curve of a volume ramp: `linear` in amplitude, `exponential` (linear in decibels) or `logarithmic` (linear on
+ * the perceived scale of `setVolumeLogarithmic`).
+ */
+export type RampCurve = 'linear' | 'exponential' | 'logarithmic';
+
+const RAMP_CURVES: Record<RampCurve, (from: number, to: number, progress: number) => number> = {
+  linear: (from, to, progress) => from + (to - from) * progress,
+  exponential: (from, to, progress) => {
+    const start = Math.max(from, MIN_EXPONENTIAL_VOLUME);
+    return start * (Math.max(to, MIN_EXPONENTIAL_VOLUME) / start) ** progress;
+  },
+  logarithmic: (from, to, progress) => {
+    const start = from ** (1 / AMPLITUDE_RATIO);
+    return (start + (to ** (1 / AMPLITUDE_RATIO) - start) * progress) ** AMPLITUDE_RATIO;
+  },
+};
+
+interface VolumeRamp {
+  from: number;
+  to: number;
+  frames: number;
+  elapsed: number;
+  curve: RampCurve;
+}
+
 interface VolumeTransformerOptions extends TransformOptions {
-  type?: string;
+  type?: string | PcmFormat;
   volume?: number;
+  rate?: number;
+  channels?: number;
+  limiter?: boolean | LimiterOptions;
+  clipping?: 'hard' | 'soft';
 }
 
 /**
  * Transforms a stream of PCM volume.
+ *
+ * The `clip` event is emitted with the number of samples of each chunk that exceeded full scale once the volume was
+ * applied, which are clipped unless a limiter is used.
  */
 export class VolumeTransformer extends Transform {
-  private bits: number;
-  private bytes: number;
-  private extremum: number;
+  private readonly format: PcmFormat;
+  private readonly rate: number;
+  private readonly channels: number;
   private chunk?: Buffer = Buffer.alloc(0);
   private volume: number;
+  private ramp?: VolumeRamp;
+  // The position in the current frame, in bytes
+  private position = 0;
+  private readonly limiter?: Limiter;
+  private readonly softClipping: boolean;
+  private clipped = 0;
 
   /**
    * @param options Any optional TransformStream options plus some extra:
-   * @param options.type The type of transformer: s16le (signed 16-bit little-endian), s16be, s32le, s32be
+   * @param options.type The sample format of the stream, as a `PcmFormat` or its name: u8 (unsigned 8-bit), s16le
+   * (signed 16-bit little-endian), s16be, s24le, s24be, s32le, s32be, f32le (32-bit float little-endian), f32be or
+   * f64le. Integer samples are clipped to their range, and float samples to [-1, 1]
    * @param [options.volume=1] The output volume of the stream
+   * @param [options.rate=48000] The sampling rate of the stream, used to time volume ramps
+   * @param [options.channels=2] The number of channels of the stream, whose samples are ramped together
+   * @param [options.limiter=false] Whether to apply a look-ahead peak limiter after the volume, or its options. It
+   * delays the audio by its attack time
+   * @param [options.clipping='hard'] How samples that exceed full scale are clipped: `hard` clamps them, `soft`
+   * smoothly compresses the samples above -6 dBFS
    * @example
    * // Half the volume of a signed 16-bit little-endian PCM stream
    * input
@@ -32,74 +84,126 @@ export class VolumeTransformer extends Transform {
   public constructor(options: VolumeTransformerOptions = {}) {
     super(options);
 
-    switch (options.type) {
-      case 's16le':
-        this._readInt = (buffer, index) => buffer.readInt16LE(index);
-        this._writeInt = (buffer, int, index) => buffer.writeInt16LE(int, index);
-        this.bits = 16;
-        break;
-      case 's16be':
-        this._readInt = (buffer, index) => buffer.readInt16BE(index);
-        this._writeInt = (buffer, int, index) => buffer.writeInt16BE(int, index);
-        this.bits = 16;
-        break;
-      case 's32le':
-        this._readInt = (buffer, index) => buffer.readInt32LE(index);
-        this._writeInt = (buffer, int, index) => buffer.writeInt32LE(int, index);
-        this.bits = 32;
-        break;
-      case 's32be':
-        this._readInt = (buffer, index) => buffer.readInt32BE(index);
-        this._writeInt = (buffer, int, index) => buffer.writeInt32BE(int, index);
-        this.bits = 32;
-        break;
-      default:
-        throw new Error('VolumeTransformer type should be one of s16le, s16be, s32le, s32be');
+    if (typeof options.type === 'undefined') {
+      throw new Error('VolumeTransformer type should be a PCM format');
     }
-
-    this.bytes = this.bits / 8;
-    this.extremum = 2 ** (this.bits - 1);
+    this.format = getPcmFormat(options.type);
     this.volume = typeof options.volume === 'undefined' ? 1 : options.volume;
+    this.rate = options.rate ?? 48000;
+    this.channels = options.channels ?? 2;
+    if (options.limiter) {
+      const limiterOptions = options.limiter === true ? {} : options.limiter;
+      this.limiter = new Limiter(limiterOptions, this.rate, this.channels, -this.format.min);
+    }
+    this.softClipping = options.clipping === 'soft';
   }
 
-  private _readInt(buffer: Buffer, index: number): number {
-    return index;
-  }
-
-  private _writeInt(buffer: Buffer, int: number, index: number): number {
-    return index;
+  /**
+   * The number of samples that exceeded full scale after the volume was applied, before being limited or clipped.
+   */
+  public get clippedSamples(): number {
+    return this.clipped;
   }
 
   public _transform(chunk: Buffer, encoding: BufferEncoding, done: TransformCallback): void {
-    // If the volume is 1, act like a passthrough stream
-    if (this.volume === 1) {
+    const { format } = this;
+    const { bytes: _bytes } = format;
+    const frameBytes = _bytes * this.channels;
+
+    // If the volume is 1, act like a passthrough stream, unless float samples may need clipping
+    if (
+      this.volume === 1 &&
+      !format.float &&
+      !this.ramp &&
+      !this.chunk?.length &&
+      !this.limiter &&
+      !this.softClipping
+    ) {
+      this.position = (this.position + chunk.length) % frameBytes;
       this.push(chunk);
 
       return done();
     }
 
-    const { bytes: _bytes, extremum: _extremum } = this;
     const newChunk = (this.chunk = this.chunk ? Buffer.concat([this.chunk, chunk]) : chunk);
 
     if (newChunk.length < _bytes) {
       return done();
     }
 
-    const transformed = Buffer.allocUnsafe(newChunk.length);
     const complete = Math.floor(newChunk.length / _bytes) * _bytes;
+    const transformed = Buffer.allocUnsafe(complete);
+    let rampEnded = false;
+    let clipped = 0;
+    let length = 0;
 
     for (let i = 0; i < complete; i += _bytes) {
-      const int = Math.min(_extremum - 1, Math.max(-_extremum, Math.floor(this.volume * this._readInt(newChunk, i))));
-
-      this._writeInt(transformed, int, i);
+      // The volume of a ramp changes at the start of each frame, so that all the channels have the same volume
+      if (this.ramp && (this.position + i) % frameBytes === 0) {
+        rampEnded = this._stepRamp(this.ramp);
+      }
+      const sample = this.volume * format.read(newChunk, i);
+      if (sample > format.max || sample < format.min) {
+        clipped++;
+      }
+      const limited = this.limiter ? this.limiter.process(sample) : sample;
+      if (typeof limited !== 'undefined') {
+        this._writeSample(transformed, limited, length);
+        length += _bytes;
+      }
     }
 
+    this.position = (this.position + complete) % frameBytes;
     this.chunk = newChunk.slice(complete);
-    this.push(transformed);
+    this.push(transformed.slice(0, length));
+    if (rampEnded) {
+      this.emit('rampEnd', this.volume);
+    }
+    if (clipped > 0) {
+      this.clipped += clipped;
+      this.emit('clip', clipped);
+    }
+
+    return done();
+  }
+
+  public _flush(done: TransformCallback): void {
+    if (this.limiter) {
+      const samples = this.limiter.flush();
+      const buffer = Buffer.allocUnsafe(samples.length * this.format.bytes);
+      samples.forEach((sample, i) => this._writeSample(buffer, sample, i * this.format.bytes));
+      this.push(buffer);
+    }
 
     return done();
   }
 
+  /**
+   * Writes a sample, soft clipping it if enabled.
+   * @param buffer the buffer.
+   * @param sample the sample.
+   * @param offset the offset of the sample.
+   */
+  private _writeSample(buffer: Buffer, sample: number, offset: number): void {
+    this.format.write(buffer, this.softClipping ? softClip(sample, -this.format.min) : sample, offset);
+  }
+
+  /**
+   * Moves a ramp forward by a frame, updating the volume.
+   * @param ramp the ramp.
+   * @returns whether the ramp has ended.
+   */
+  private _stepRamp(ramp: VolumeRamp): boolean {
+    ramp.elapsed++;
+    if (ramp.elapsed >= ramp.frames) {
+      this.volume = ramp.to;
+      this.ramp = undefined;
+      return true;
+    }
+    this.volume = RAMP_CURVES[ramp.curve](ramp.from, ramp.to, ramp.elapsed / ramp.frames);
+    return false;
+  }
+
   public _destroy(error: Error | null, callback: (error: Error | null) => void): void {
     super._destroy(error, callback);
 
@@ -113,6 +217,50 @@ export class VolumeTransformer extends Transform {
    */
   public setVolume(volume: number): void {
     this.volume = volume;
+    this.ramp = undefined;
+  }
+
+  /**
+   * Changes the volume gradually, sample by sample, to avoid clicks. The `rampEnd` event is emitted with the volume
+   * when the ramp ends, unless it is interrupted by another ramp or by setting the volume.
+   *
+   * @param volume The volume to ramp to, relative to the input stream
+   * @param duration The duration of the ramp in milliseconds
+   * @param [curve='linear'] The curve of the ramp: linear, exponential or logarithmic
+   */
+  public rampTo(volume: number, duration: number, curve: RampCurve = 'linear'): void {
+    if (!Object.prototype.hasOwnProperty.call(RAMP_CURVES, curve)) {
+      throw new Error(`Ramp curve should be one of ${Object.keys(RAMP_CURVES).join(', ')}`);
+    }
+    const frames = Math.round((duration * this.rate) / 1000);
+    if (frames <= 0) {
+      this.setVolume(volume);
+      this.emit('rampEnd', volume);
+      return;
+    }
+    this.ramp = { from: this.volume, to: volume, frames, elapsed: 0, curve };
+  }
+
+  /**
+   * Fades the stream in from silence.
+   *
+   * @param duration The duration of the fade in milliseconds
+   * @param [volume=1] The volume at the end of the fade
+   * @param [curve='linear'] The curve of the fade: linear, exponential or logarithmic
+   */
+  public fadeIn(duration: number, volume = 1, curve: RampCurve = 'linear'): void {
+    this.setVolume(0);
+    this.rampTo(volume, duration, curve);
+  }
+
+  /**
+   * Fades the stream out to silence from the current volume.
+   *
+   * @param duration The duration of the fade in milliseconds
+   * @param [curve='linear'] The curve of the fade: linear, exponential or logarithmic
+   */
+  public fadeOut(duration: number, curve: RampCurve = 'linear'): void {
+    this.rampTo(0, duration, curve);
   }
 
   /**
@@ -0,0 +1,188 @@
+// The comment that holds a base64-encoded FLAC picture block, used for cover art
+const PICTURE_KEY = 'METADATA_BLOCK_PICTURE';
+
+/**
+ * A picture embedded in a Vorbis comment, e.g. the cover art of an album.
+ */
+export interface VorbisPicture {
+  /**
+   * the type of the picture, as defined by ID3v2 APIC frames (e.g. 3 for the front cover)
+   */
+  type: number;
+  /**
+   * the MIME type of the picture, e.g. `image/jpeg`
+   */
+  mimeType: string;
+  /**
+   * the description of the picture
+   */
+  description: string;
+  /**
+   * the width of the picture in pixels
+   */
+  width: number;
+  /**
+   * the height of the picture in pixels
+   */
+  height: number;
+  /**
+   * the color depth of the picture in bits per pixel
+   */
+  depth: number;
+  /**
+   * the number of colors of indexed pictures, or 0
+   */
+  colors: number;
+  /**
+   * the data of the picture
+   */
+  data: Buffer;
+}
+
+/**
+ * The content of a Vorbis comment, which is used for the metadata of Vorbis and Opus streams (e.g. in OpusTags).
+ */
+export interface VorbisComment {
+  /**
+   * the vendor string, which usually identifies the encoder
+   */
+  vendor: string;
+  /**
+   * the values of each field, by field name in capital letters (e.g. `TITLE` or `ARTIST`)
+   */
+  comments: Record<string, string[]>;
+  /**
+   * the pictures decoded from the `METADATA_BLOCK_PICTURE` fields
+   */
+  pictures: VorbisPicture[];
+}
+
+/**
+ * Parses a Vorbis comment.
+ * @param buffer the buffer containing the Vorbis comment.
+ * @param [offset=0] the offset of the Vorbis comment, e.g. 8 to skip the signature of OpusTags packets.
+ * @throws Will throw an error if the Vorbis comment is truncated. Malformed pictures are ignored.
+ */
+export function parseVorbisComment(buffer: Buffer, offset = 0): VorbisComment {
+  const readString = () => {
+    if (offset + 4 > buffer.length) {
+      throw new Error('Invalid Vorbis comment: unexpected end of data');
+    }
+    const length = buffer.readUInt32LE(offset);
+    offset += 4;
+    if (offset + length > buffer.length) {
+      throw new Error('Invalid Vorbis comment: unexpected end of data');
+    }
+    offset += length;
+    return buffer.toString('utf8', offset - length, offset);
+  };
+
+  const comment: VorbisComment = { vendor: readString(), comments: {}, pictures: [] };
+  if (offset + 4 > buffer.length) {
+    throw new Error('Invalid Vorbis comment: unexpected end of data');
+  }
+  const count = buffer.readUInt32LE(offset);
+  offset += 4;
+
+  for (let i = 0; i < count; i++) {
+    const field = readString();
+    const separator = field.indexOf('=');
+    // Fields without a separator are invalid and ignored
+    if (separator === -1) {
+      continue;
+    }
+    const key = field.slice(0, separator).toUpperCase();
+    const value = field.slice(separator + 1);
+    if (key === PICTURE_KEY) {
+      try {
+        comment.pictures.push(parsePicture(Buffer.from(value, 'base64')));
+      } catch {
+        // Malformed pictures are ignored like invalid fields, so that they don't hide the other fields
+      }
+    } else {
+      (comment.comments[key] ??= []).push(value);
+    }
+  }
+
+  return comment;
+}
+
+/**
+ * Serializes a Vorbis comment. The pictures are written as `METADATA_BLOCK_PICTURE` fields.
+ * @param comment the vendor string, the fields and the pictures of the Vorbis comment.
+ */
+export function serializeVorbisComment({ vendor, comments, pictures = [] }: Partial<VorbisComment>): Buffer {
+  const fields = [
+    ...Object.entries(comments ?? {}).flatMap(([key, values]) => values.map((value) => `${key}=${value}`)),
+    ...pictures.map((picture) => `${PICTURE_KEY}=${serializePicture(picture).toString('base64')}`),
+  ].map((field) => Buffer.from(field));
+  const vendorString = Buffer.from(vendor ?? '');
+
+  const buffer = Buffer.alloc(8 + vendorString.length + fields.reduce((total, field) => total + 4 + field.length, 0));
+  let offset = buffer.writeUInt32LE(vendorString.length, 0);
+  offset += vendorString.copy(buffer, offset);
+  offset = buffer.writeUInt32LE(fields.length, offset);
+  for (const field of fields) {
+    offset = buffer.writeUInt32LE(field.length, offset);
+    offset += field.copy(buffer, offset);
+  }
+
+  return buffer;
+}
+
+/**
+ * Parses a FLAC picture block.
+ * @param buffer the picture block.
+ * @throws Will throw an error if the picture block is truncated.
+ */
+function parsePicture(buffer: Buffer): VorbisPicture {
+  let offset = 0;
+  const readUInt32 = () => {
+    if (offset + 4 > buffer.length) {
+      throw new Error('Invalid picture block: unexpected end of data');
+    }
+    offset += 4;
+    return buffer.readUInt32BE(offset - 4);
+  };
+  const readData = () => {
+    const length = readUInt32();
+    if (offset + length > buffer.length) {
+      throw new Error('Invalid picture block: unexpected end of data');
+    }
+    offset += length;
+    return buffer.slice(offset - length, offset);
+  };
+
+  return {
+    type: readUInt32(),
+    mimeType: readData().toString('ascii'),
+    description: readData().toString('utf8'),
+    width: readUInt32(),
+    height: readUInt32(),
+    depth: readUInt32(),
+    colors: readUInt32(),
+    data: readData(),
+  };
+}
+
+/**
+ * Serializes a picture to a FLAC picture block.
+ * @param picture the picture.
+ */
+function serializePicture({ type, mimeType, description, width, height, depth, colors, data }: VorbisPicture): Buffer {
+  const mimeTypeString = Buffer.from(mimeType, 'ascii');
+  const descriptionString = Buffer.from(description);
+  const buffer = Buffer.alloc(32 + mimeTypeString.length + descriptionString.length + data.length);
+
+  let offset = buffer.writeUInt32BE(type, 0);
+  offset = buffer.writeUInt32BE(mimeTypeString.length, offset);
+  offset += mimeTypeString.copy(buffer, offset);
+  offset = buffer.writeUInt32BE(descriptionString.length, offset);
+  offset += descriptionString.copy(buffer, offset);
+  for (const value of [width, height, depth, colors, data.length]) {
+    offset = buffer.writeUInt32BE(value, offset);
+  }
+  data.copy(buffer, offset);
+
+  return buffer;
+}
@@ -1,13 +1,192 @@
 import { Transform, TransformCallback, TransformOptions } from 'stream';
+import { DemuxedPacket, PACKET_FLAGS } from './DemuxedPacket';
+import { openSource, SeekableSource, writeFromSource } from './Seekable';
 
 interface Tag {
   offset: number;
   _skipUntil?: number;
 }
 
-interface Track {
+/**
+ * A track of a WebM/Matroska file, as described by its TrackEntry element.
+ */
+export interface WebmTrack {
+  /**
+   * the number of the track, which its blocks refer to
+   */
   number: number;
+  /**
+   * the type of the track (1 for video, 2 for audio, 17 for subtitles...)
+   */
   type: number;
+  /**
+   * the codec of the track, e.g. `A_OPUS` or `A_VORBIS`
+   */
+  codecId: string;
+  /**
+   * the codec-specific data of the track, e.g. the OpusHead of Opus tracks
+   */
+  codecPrivate?: Buffer;
+  /**
+   * the delay in nanoseconds introduced by the codec, which is subtracted from the timestamps of the blocks
+   */
+  codecDelay?: number;
+  /**
+   * the sampling frequency in Hz, for audio tracks
+   */
+  samplingFrequency?: number;
+  /**
+   * the number of channels, for audio tracks
+   */
+  channels?: number;
+  /**
+   * the number of bits per sample, for audio tracks
+   */
+  bitDepth?: number;
+  /**
+   * the language of the track (defaults to `eng`)
+   */
+  language: string;
+  /**
+   * the name of the track
+   */
+  name?: string;
+  /**
+   * whether the track should be chosen when the user has no preference
+   */
+  default: boolean;
+}
+
+/**
+ * The general information about a WebM/Matroska segment, from its Info element.
+ */
+export interface WebmInfo {
+  /**
+   * the number of nanoseconds per timecode unit (defaults to 1000000)
+   */
+  timecodeScale: number;
+  /**
+   * the duration of the segment in milliseconds
+   */
+  duration?: number;
+  /**
+   * the title of the segment
+   */
+  title?: string;
+  /**
+   * the library used to mux the file
+   */
+  muxingApp?: string;
+  /**
+   * the application used to write the file
+   */
+  writingApp?: string;
+  /**
+   * the date the file was created
+   */
+  date?: Date;
+}
+
+/**
+ * A tag of a WebM/Matroska file, which applies to the whole file unless it targets some tracks.
+ */
+export interface WebmTag {
+  /**
+   * the logical level of the target, e.g. 50 for an album or a movie and 30 for a track or a chapter (defaults to 50)
+   */
+  targetTypeValue: number;
+  /**
+   * the name of the logical level of the target, e.g. `ALBUM` or `TRACK`
+   */
+  targetType?: string;
+  /**
+   * the UIDs of the tracks the tag applies to (all of them if empty)
+   */
+  trackUids: number[];
+  /**
+   * the values of the tag
+   */
+  simpleTags: WebmSimpleTag[];
+}
+
+/**
+ * A value of a tag, e.g. `TITLE` or `ARTIST`.
+ */
+export interface WebmSimpleTag {
+  /**
+   * the name of the value, in capital letters
+   */
+  name: string;
+  /**
+   * the language of the value (defaults to `und`)
+   */
+  language: string;
+  /**
+   * the value, if it is a string
+   */
+  value?: string;
+  /**
+   * the value, if it is binary
+   */
+  binary?: Buffer;
+  /**
+   * the values that give more information about this one, e.g. the `URL` of an `ARTIST`
+   */
+  children: WebmSimpleTag[];
+}
+
+/**
+ * A chapter of a WebM/Matroska file.
+ */
+export interface WebmChapter {
+  /**
+   * the UID of the chapter
+   */
+  uid?: number;
+  /**
+   * the start time of the chapter in milliseconds
+   */
+  start: number;
+  /**
+   * the end time of the chapter in milliseconds
+   */
+  end?: number;
+  /**
+   * whether the chapter shouldn't be shown to the user
+   */
+  hidden: boolean;
+  /**
+   * the titles of the chapter, in different languages
+   */
+  titles: { title: string; language: string }[];
+  /**
+   * the chapters nested in this one
+   */
+  chapters: WebmChapter[];
+}
+
+// The type of audio tracks
+const AUDIO_TRACK = 2;
+
+// The lacing modes of blocks, from bits 1-2 of their flags
+const LACING = {
+  NONE: 0,
+  XIPH: 1,
+  FIXED: 2,
+  EBML: 3,
+};
+
+export interface WebmBaseDemuxerOptions extends TransformOptions {
+  /**
+   * whether to output `DemuxedPacket` objects (containing the data, the timestamp, the duration when it is known,
+   * the track number and the flags of each block) instead of buffers (defaults to false)
+   */
+  metadata?: boolean;
+  /**
+   * the audio track to output, given by its number, its language or a function that decides whether a track should
+   * be output (defaults to the first default audio track, or the first audio track if none is flagged as default)
+   */
+  track?: number | string | ((track: WebmTrack) => boolean);
 }
 
 /**
@@ -31,28 +210,175 @@ export class WebmBaseDemuxer extends Transform {
     '1a45dfa3': true, // EBML
     '18538067': true, // Segment
     '1f43b675': true, // Cluster
-    '1654ae6b': true, // Tracks
-    ae: true, // TrackEntry
-    d7: false, // TrackNumber
-    '83': false, // TrackType
+    '1654ae6b': false, // Tracks (read as a whole)
     a3: false, // SimpleBlock
-    '63a2': false,
+    a0: false, // BlockGroup (read as a whole)
+    '1549a966': false, // Info (read as a whole)
+    '1254c367': false, // Tags (read as a whole)
+    '1043a770': false, // Chapters (read as a whole)
+    e7: false, // Timecode
   };
 
   private _remainder?: Buffer;
   private _length = 0;
   private _count = 0;
   private _skipUntil?: number;
-  private _track?: Track;
-  private _incompleteTrack: Partial<Track> = {};
+  private _tracks: WebmTrack[] = [];
+  private _track?: WebmTrack;
+  private readonly _selectTrack?: (track: WebmTrack) => boolean;
   private _ebmlFound = false;
+  private _duration?: number;
+  private readonly _metadata: boolean;
+  private _timecodeScale = 1e6;
+  private _clusterTimecode = 0;
 
   /**
    * Creates a new Webm demuxer.
-   * @param [options] options that you would pass to a regular Transform stream.
+   * @param [options] options that you would pass to a regular Transform stream, plus the `metadata` and `track`
+   * options. A `tracks` event is emitted with the `WebmTrack` objects of all the tracks once they are read, and the
+   * `info`, `tags` and `chapters` events are emitted with a `WebmInfo` object, `WebmTag` objects and `WebmChapter`
+   * objects when the corresponding elements are found.
    */
-  public constructor(options: TransformOptions = {}) {
+  public constructor({ metadata = false, track, ...options }: WebmBaseDemuxerOptions = {}) {
     super({ readableObjectMode: true, ...options });
+
+    this._metadata = metadata;
+    if (typeof track === 'number') {
+      this._selectTrack = ({ number }) => number === track;
+    } else if (typeof track === 'string') {
+      this._selectTrack = ({ language }) => language === track;
+    } else {
+      this._selectTrack = track;
+    }
+  }
+
+  /**
+   * The tracks of the file, once they are read.
+   */
+  public get tracks(): readonly WebmTrack[] {
+    return this._tracks;
+  }
+
+  /**
+   * The audio track that is output, once the tracks are read.
+   */
+  public get track(): WebmTrack | undefined {
+    return this._track;
+  }
+
+  /**
+   * The duration in milliseconds of the segment, as written in its Info element.
+   * It is only known once the Info element is read.
+   */
+  public get duration(): number | undefined {
+    return this._duration;
+  }
+
+  /**
+   * Reads a seekable source from a given time, instead of having data piped into the demuxer. The elements before
+   * the first Cluster are read first, then the last Cluster that starts before the requested time is found using the
+   * Cues (or by walking the Clusters if there are none), and the data is read from there. The demuxer is ended once
+   * the whole source has been read.
+   * @param source the path of a file, or a seekable source.
+   * @param [time=0] the time to start from, in milliseconds.
+   * @example
+   * const demuxer = new prism.opus.WebmDemuxer();
+   * demuxer.pipe(new prism.opus.Decoder({ rate: 48000, channels: 2, frameSize: 960 })).pipe(output);
+   * // Start playback at 3:20
+   * await demuxer.seek('./audio.webm', 200000);
+   */
+  public async seek(source: string | SeekableSource, time = 0): Promise<void> {
+    const reader = openSource(source);
+
+    try {
+      const size = await reader.size();
+      const ebml = await readElementHeader(reader, 0);
+      if (ebml?.id !== '1a45dfa3' || ebml.size === undefined) {
+        throw Error('Did not find the EBML tag at the start of the stream');
+      }
+      const segment = await readElementHeader(reader, ebml.dataStart + ebml.size);
+      if (segment?.id !== '18538067') {
+        throw Error('Did not find the Segment tag after the EBML tag');
+      }
+
+      const segmentEnd = segment.size === undefined ? size : Math.min(size, segment.dataStart + segment.size);
+      let timecodeScale = 1e6;
+      let cuesPosition: number | undefined;
+      let firstCluster = segmentEnd;
+      for (let position = segment.dataStart; position < segmentEnd; ) {
+        const element = await readElementHeader(reader, position);
+        if (!element) {
+          break;
+        }
+        if (element.id === '1f43b675' || element.size === undefined) {
+          firstCluster = position;
+          break;
+        }
+
+        if (element.id === '114d9b74') {
+          // SeekHead
+          for (const seek of readChildren(await reader.read(element.dataStart, element.size))) {
+            const children = readChildren(seek.data);
+            const id = findChild(children, '53ab')?.toString('hex');
+            const seekPosition = findChild(children, '53ac');
+            if (seek.id === '4dbb' && id === '1c53bb6b' && seekPosition) {
+              cuesPosition = segment.dataStart + readUint(seekPosition);
+            }
+          }
+        } else if (element.id === '1549a966') {
+          const info = readInfo(await reader.read(element.dataStart, element.size));
+          timecodeScale = info.timecodeScale;
+          this._duration = info.duration;
+        } else if (element.id === '1c53bb6b') {
+          cuesPosition = position;
+        }
+        position = element.dataStart + element.size;
+      }
+
+      await writeFromSource(this, reader, 0, firstCluster);
+
+      let position = firstCluster;
+      if (time > 0) {
+        const timecode = (time * 1e6) / timecodeScale;
+        const cues = cuesPosition === undefined ? undefined : await readElementHeader(reader, cuesPosition);
+        if (cues?.id === '1c53bb6b' && cues.size !== undefined) {
+          for (const cuePoint of readChildren(await reader.read(cues.dataStart, cues.size))) {
+            const children = readChildren(cuePoint.data);
+            const cueTime = findChild(children, 'b3');
+            const trackPositions = findChild(children, 'b7');
+            const clusterPosition = trackPositions && findChild(readChildren(trackPositions), 'f1');
+            if (cuePoint.id !== 'bb' || !cueTime || !clusterPosition) {
+              continue;
+            }
+            if (readUint(cueTime) > timecode) {
+              break;
+            }
+            position = Math.max(firstCluster, segment.dataStart + readUint(clusterPosition));
+          }
+        } else {
+          for (let clusterPosition = firstCluster; clusterPosition < segmentEnd; ) {
+            const cluster = await readElementHeader(reader, clusterPosition);
+            if (cluster?.id !== '1f43b675' || cluster.size === undefined) {
+              break;
+            }
+            // The Timecode is the first child of a Cluster
+            const clusterTimecode = findChild(readChildren(await reader.read(cluster.dataStart, 16)), 'e7');
+            if (clusterTimecode && readUint(clusterTimecode) > timecode) {
+              break;
+            }
+            position = clusterPosition;
+            clusterPosition = cluster.dataStart + cluster.size;
+          }
+        }
+      }
+
+      await writeFromSource(this, reader, position);
+      this.end();
+    } finally {
+      if (typeof source === 'string') {
+        await reader.close?.();
+      }
+    }
   }
 
   public _transform(chunk: Buffer, encoding: BufferEncoding, done: TransformCallback): void {
@@ -70,20 +396,24 @@ export class WebmBaseDemuxer extends Transform {
       return done();
     }
     let result: Tag | typeof WebmBaseDemuxer.TOO_SHORT | undefined;
-    while (result !== WebmBaseDemuxer.TOO_SHORT) {
-      result = this._readTag(chunk, offset);
-      if (result === WebmBaseDemuxer.TOO_SHORT) {
-        break;
-      }
-      if (result._skipUntil) {
-        this._skipUntil = result._skipUntil;
-        break;
-      }
-      if (result.offset) {
-        offset = result.offset;
-      } else {
-        break;
+    try {
+      while (result !== WebmBaseDemuxer.TOO_SHORT) {
+        result = this._readTag(chunk, offset);
+        if (result === WebmBaseDemuxer.TOO_SHORT) {
+          break;
+        }
+        if (result._skipUntil) {
+          this._skipUntil = result._skipUntil;
+          break;
+        }
+        if (result.offset) {
+          offset = result.offset;
+        } else {
+          break;
+        }
       }
+    } catch (error) {
+      return done(error);
     }
     this._count += offset;
     this._remainder = chunk.slice(offset);
@@ -179,38 +509,122 @@ export class WebmBaseDemuxer extends Transform {
       return WebmBaseDemuxer.TOO_SHORT;
     }
     const data = chunk.slice(offset, offset + dataLength);
-    if (!this._track) {
-      if (ebmlID === 'ae') {
-        this._incompleteTrack = {};
-      }
-      if (ebmlID === 'd7') {
-        this._incompleteTrack.number = data[0];
-      }
-      if (ebmlID === '83') {
-        this._incompleteTrack.type = data[0];
-      }
-      if (this._incompleteTrack.type === 2 && typeof this._incompleteTrack.number !== 'undefined') {
-        this._track = this._incompleteTrack as Track;
-      }
-    }
-    if (ebmlID === '63a2') {
-      this._checkHead(data);
+    if (ebmlID === '1654ae6b') {
+      this._readTracks(data);
+    } else if (ebmlID === '1549a966') {
+      const info = readInfo(data);
+      this._timecodeScale = info.timecodeScale;
+      this._duration = info.duration;
+      this.emit('info', info);
+    } else if (ebmlID === '1254c367') {
+      this.emit('tags', readTags(data));
+    } else if (ebmlID === '1043a770') {
+      this.emit('chapters', readChapters(data));
+    } else if (ebmlID === 'e7') {
+      this._clusterTimecode = readUint(data);
     } else if (ebmlID === 'a3') {
-      if (typeof this._track === 'undefined') {
-        throw Error('No audio track in this webm!');
-      }
-      if ((data[0] & 0xf) === this._track.number) {
-        this.push(data.slice(4));
+      this._readBlock(data);
+    } else if (ebmlID === 'a0') {
+      const children = readChildren(data);
+      const block = findChild(children, 'a1');
+      const duration = findChild(children, '9b');
+      const discardPadding = findChild(children, '75a2');
+      if (block) {
+        // A Block that doesn't reference any other block is a keyframe
+        const keyframe = !children.some((child) => child.id === 'fb');
+        this._readBlock(block, {
+          keyframe,
+          duration: duration && readUint(duration),
+          discardPadding: discardPadding && readInt(discardPadding),
+        });
       }
     }
     return { offset: offset + dataLength };
   }
 
+  /**
+   * Reads the Tracks element, selecting the audio track to output.
+   * @param data the data of the Tracks element.
+   */
+  private _readTracks(data: Buffer): void {
+    this._tracks = readChildren(data)
+      .filter(({ id }) => id === 'ae')
+      .map(({ data: entry }) => readTrackEntry(entry));
+    this.emit('tracks', this._tracks);
+
+    const audioTracks = this._tracks.filter(({ type }) => type === AUDIO_TRACK);
+    this._track = this._selectTrack
+      ? audioTracks.find(this._selectTrack)
+      : audioTracks.find((track) => track.default) ?? audioTracks[0];
+    if (this._track?.codecPrivate) {
+      this._checkHead(this._track.codecPrivate);
+    }
+  }
+
+  /**
+   * Reads a SimpleBlock, or the Block of a BlockGroup, and outputs its frames if it belongs to the audio track.
+   * @param block the data of the block.
+   * @param [group] whether the Block of a BlockGroup is a keyframe, the duration of the BlockGroup (in timecode
+   * scale units) if it has one, and the duration of audio to discard at the end of the Block (in nanoseconds).
+   */
+  private _readBlock(block: Buffer, group?: { keyframe: boolean; duration?: number; discardPadding?: number }): void {
+    if (typeof this._track === 'undefined') {
+      throw Error('No audio track in this webm!');
+    }
+    const trackLength = vintLength(block, 0);
+    if (trackLength === WebmBaseDemuxer.TOO_SHORT || block.length < trackLength + 3) {
+      throw Error('Invalid block header');
+    }
+    if (readVintValue(block, 0, trackLength) !== this._track.number) {
+      return;
+    }
+
+    const blockFlags = block[trackLength + 2];
+    const flags = group
+      ? (blockFlags & PACKET_FLAGS.INVISIBLE) | (group.keyframe ? PACKET_FLAGS.KEYFRAME : 0)
+      : blockFlags & (PACKET_FLAGS.KEYFRAME | PACKET_FLAGS.INVISIBLE | PACKET_FLAGS.DISCARDABLE);
+    const frames = splitLacedFrames(block, trackLength + 3, (blockFlags >> 1) & 0x3);
+    const groupDuration =
+      group?.duration === undefined ? undefined : (group.duration * this._timecodeScale) / 1e6 / frames.length;
+
+    let timestamp =
+      ((this._clusterTimecode + block.readInt16BE(trackLength)) * this._timecodeScale - (this._track.codecDelay ?? 0)) /
+      1e6;
+    for (const [i, frame] of frames.entries()) {
+      let duration = this._packetDuration(frame) ?? groupDuration;
+      // The padding is discarded from the end of the last frame
+      if (duration !== undefined && group?.discardPadding && i === frames.length - 1) {
+        duration = Math.max(0, duration - group.discardPadding / 1e6);
+      }
+      this._pushPacket(frame, { timestamp, duration, flags });
+      timestamp += duration ?? 0;
+    }
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   protected _checkHead(data: Buffer): void {
     throw new Error('Method not implemented.');
   }
 
+  /**
+   * Returns the duration of a packet in milliseconds, if the codec allows it to be read from the packet.
+   * @param packet the packet.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected _packetDuration(packet: Buffer): number | undefined {
+    return undefined;
+  }
+
+  /**
+   * Outputs the data of a packet, or a `DemuxedPacket` object if the `metadata` option is enabled.
+   * @param data the data of the packet.
+   * @param [metadata] the timestamp, duration and flags of the packet (header packets have none of them).
+   */
+  protected _pushPacket(data: Buffer, { timestamp = 0, duration, flags = 0 }: Partial<DemuxedPacket> = {}): void {
+    const packet: DemuxedPacket = { data, timestamp, duration, trackNumber: this._track?.number ?? 0, flags };
+    this.push(this._metadata ? packet : data);
+  }
+
   public _destroy(error: Error | null, callback: (error: Error | null) => void): void {
     this.cleanup();
     callback(error);
@@ -226,7 +640,7 @@ export class WebmBaseDemuxer extends Transform {
    */
   private cleanup() {
     this._remainder = undefined;
-    this._incompleteTrack = {};
+    this._clusterTimecode = 0;
   }
 }
 
@@ -262,3 +676,664 @@ function expandVint(buffer: Buffer, start: number, end: number): number | typeof
 
   return value;
 }
+
+/**
+ * Reads the value of a variable-size integer, without overflowing on values larger than 32 bits.
+ * @returns the value, or undefined if all its value bits are set to 1 (an unknown size).
+ */
+function readVintValue(buffer: Buffer, start: number, length: number): number | undefined {
+  const mask = (1 << (8 - length)) - 1;
+  let value = buffer[start] & mask;
+  let unknown = value === mask;
+
+  for (let i = start + 1; i < start + length; i++) {
+    value = value * 256 + buffer[i];
+    unknown &&= buffer[i] === 0xff;
+  }
+
+  return unknown ? undefined : value;
+}
+
+/**
+ * Splits the data of a block into its frames, according to its lacing mode.
+ * @param block the data of the block.
+ * @param offset the offset of the lacing header, or of the frame if the block isn't laced.
+ * @param lacing the lacing mode of the block.
+ * @throws Will throw an error if the lacing header is malformed.
+ */
+function splitLacedFrames(block: Buffer, offset: number, lacing: number): Buffer[] {
+  if (lacing === LACING.NONE) {
+    return [block.slice(offset)];
+  }
+  if (offset >= block.length) {
+    throw Error('Invalid lacing header');
+  }
+
+  const count = block[offset++] + 1;
+  const sizes: number[] = [];
+  if (lacing === LACING.XIPH) {
+    for (let i = 0; i < count - 1; i++) {
+      let size = 0;
+      let byte;
+      do {
+        if (offset >= block.length) {
+          throw Error('Invalid lacing header');
+        }
+        byte = block[offset++];
+        size += byte;
+      } while (byte === 255);
+      sizes.push(size);
+    }
+  } else if (lacing === LACING.EBML) {
+    for (let i = 0; i < count - 1; i++) {
+      const length = vintLength(block, offset);
+      if (length === WebmBaseDemuxer.TOO_SHORT) {
+        throw Error('Invalid lacing header');
+      }
+      const value = readVintValue(block, offset, length) ?? 2 ** (7 * length) - 1;
+      // The sizes after the first one are stored as signed differences with the previous size
+      sizes.push(i === 0 ? value : sizes[i - 1] + value - (2 ** (7 * length - 1) - 1));
+      offset += length;
+    }
+  } else {
+    const size = (block.length - offset) / count;
+    if (!Number.isInteger(size)) {
+      throw Error('Invalid fixed-size lacing');
+    }
+    sizes.push(...Array<number>(count - 1).fill(size));
+  }
+
+  const frames = [];
+  for (const size of sizes) {
+    if (size < 0 || offset + size > block.length) {
+      throw Error('Invalid lacing header');
+    }
+    frames.push(block.slice(offset, offset + size));
+    offset += size;
+  }
+  frames.push(block.slice(offset));
+  return frames;
+}
+
+function findChild(children: { id: string; data: Buffer }[], id: string): Buffer | undefined {
+  return children.find((child) => child.id === id)?.data;
+}
+
+/**
+ * Reads a TrackEntry element.
+ * @param data the data of the TrackEntry element.
+ */
+function readTrackEntry(data: Buffer): WebmTrack {
+  const children = readChildren(data);
+  const audio = readChildren(findChild(children, 'e1') ?? Buffer.alloc(0));
+  const samplingFrequency = findChild(audio, 'b5');
+  const channels = findChild(audio, '9f');
+  const bitDepth = findChild(audio, '6264');
+  const codecDelay = findChild(children, '56aa');
+  const language = findChild(children, '22b59d') ?? findChild(children, '22b59c');
+  const name = findChild(children, '536e');
+  const flagDefault = findChild(children, '88');
+
+  return {
+    number: readUint(findChild(children, 'd7') ?? Buffer.alloc(0)),
+    type: readUint(findChild(children, '83') ?? Buffer.alloc(0)),
+    codecId: readString(findChild(children, '86') ?? Buffer.alloc(0)),
+    codecPrivate: findChild(children, '63a2'),
+    codecDelay: codecDelay && readUint(codecDelay),
+    samplingFrequency: samplingFrequency && readFloat(samplingFrequency),
+    channels: channels && readUint(channels),
+    bitDepth: bitDepth && readUint(bitDepth),
+    language: language ? readString(language) : 'eng',
+    name: name && readString(name),
+    default: flagDefault ? readUint(flagDefault) === 1 : true,
+  };
+}
+
+/**
+ * Reads an Info element.
+ * @param data the data of the Info element.
+ */
+function readInfo(data: Buffer): WebmInfo {
+  const children = readChildren(data);
+  const timecodeScale = findChild(children, '2ad7b1');
+  const duration = findChild(children, '4489');
+  const title = findChild(children, '7ba9');
+  const muxingApp = findChild(children, '4d80');
+  const writingApp = findChild(children, '5741');
+  const date = findChild(children, '4461');
+  const info: WebmInfo = { timecodeScale: timecodeScale ? readUint(timecodeScale) : 1e6 };
+
+  if (duration) {
+    info.duration = (readFloat(duration) * info.timecodeScale) / 1e6;
+  }
+  if (title) {
+    info.title = readString(title);
+  }
+  if (muxingApp) {
+    info.muxingApp = readString(muxingApp);
+  }
+  if (writingApp) {
+    info.writingApp = readString(writingApp);
+  }
+  if (date?.length === 8) {
+    // The date is stored in nanoseconds since the start of the millennium
+    info.date = new Date(Date.UTC(2001, 0) + Number(date.readBigInt64BE() / BigInt(1e6)));
+  }
+  return info;
+}
+
+/**
+ * Reads a Tags element.
+ * @param data the data of the Tags element.
+ */
+function readTags(data: Buffer): WebmTag[] {
+  return readChildren(data)
+    .filter(({ id }) => id === '7373')
+    .map(({ data: tag }) => {
+      const children = readChildren(tag);
+      const targets = readChildren(findChild(children, '63c0') ?? Buffer.alloc(0));
+      const targetTypeValue = findChild(targets, '68ca');
+      const targetType = findChild(targets, '63ca');
+      return {
+        targetTypeValue: targetTypeValue ? readUint(targetTypeValue) : 50,
+        targetType: targetType && readString(targetType),
+        trackUids: targets.filter(({ id }) => id === '63c5').map(({ data: uid }) => readUint(uid)),
+        simpleTags: readSimpleTags(children),
+      };
+    });
+}
+
+function readSimpleTags(children: { id: string; data: Buffer }[]): WebmSimpleTag[] {
+  return children
+    .filter(({ id }) => id === '67c8')
+    .map(({ data: simpleTag }) => {
+      const tagChildren = readChildren(simpleTag);
+      const name = findChild(tagChildren, '45a3');
+      const language = findChild(tagChildren, '447a');
+      const value = findChild(tagChildren, '4487');
+      return {
+        name: name ? readString(name) : '',
+        language: language ? readString(language) : 'und',
+        value: value && readString(value),
+        binary: findChild(tagChildren, '4485'),
+        children: readSimpleTags(tagChildren),
+      };
+    });
+}
+
+/**
+ * Reads a Chapters element, returning the chapters of its default edition (or of its first edition if none is
+ * flagged as default).
+ * @param data the data of the Chapters element.
+ */
+function readChapters(data: Buffer): WebmChapter[] {
+  const editions = readChildren(data)
+    .filter(({ id }) => id === '45b9')
+    .map(({ data: edition }) => readChildren(edition));
+  const edition = editions.find((children) => findChild(children, '45db')?.[0] === 1) ?? editions[0] ?? [];
+  return readChapterAtoms(edition);
+}
+
+function readChapterAtoms(children: { id: string; data: Buffer }[]): WebmChapter[] {
+  return children
+    .filter(({ id }) => id === 'b6')
+    .map(({ data: atom }) => {
+      const atomChildren = readChildren(atom);
+      const uid = findChild(atomChildren, '73c4');
+      const start = findChild(atomChildren, '91');
+      const end = findChild(atomChildren, '92');
+      const hidden = findChild(atomChildren, '98');
+      return {
+        uid: uid && readUint(uid),
+        // The times of chapters are in nanoseconds
+        start: start ? readUint(start) / 1e6 : 0,
+        end: end && readUint(end) / 1e6,
+        hidden: hidden ? readUint(hidden) === 1 : false,
+        titles: atomChildren
+          .filter(({ id }) => id === '80')
+          .map(({ data: display }) => {
+            const displayChildren = readChildren(display);
+            const title = findChild(displayChildren, '85');
+            const language = findChild(displayChildren, '437c');
+            return { title: title ? readString(title) : '', language: language ? readString(language) : 'eng' };
+          }),
+        chapters: readChapterAtoms(atomChildren),
+      };
+    });
+}
+
+function readString(data: Buffer): string {
+  return data.toString('utf8').replace(/\0+$/, '');
+}
+
+function readUint(data: Buffer): number {
+  return data.reduce((value, byte) => value * 256 + byte, 0);
+}
+
+function readInt(data: Buffer): number {
+  // The first byte carries the sign, which is exact for up to 8 bytes as long as the value fits in a number
+  return data.reduce((value, byte, i) => (i === 0 ? (byte << 24) >> 24 : value * 256 + byte), 0);
+}
+
+function readFloat(data: Buffer): number {
+  if (data.length === 4) {
+    return data.readFloatBE(0);
+  }
+  return data.length === 8 ? data.readDoubleBE(0) : 0;
+}
+
+interface ElementHeader {
+  id: string;
+  dataStart: number;
+  size?: number;
+}
+
+/**
+ * Reads the ID and the size of an element from a seekable source.
+ */
+async function readElementHeader(source: SeekableSource, position: number): Promise<ElementHeader | undefined> {
+  const data = await source.read(position, 12);
+  const idLength = vintLength(data, 0);
+  if (data.length === 0 || idLength === WebmBaseDemuxer.TOO_SHORT) {
+    return undefined;
+  }
+  const sizeLength = vintLength(data, idLength);
+  if (sizeLength === WebmBaseDemuxer.TOO_SHORT) {
+    return undefined;
+  }
+
+  return {
+    id: data.slice(0, idLength).toString('hex'),
+    dataStart: position + idLength + sizeLength,
+    size: readVintValue(data, idLength, sizeLength),
+  };
+}
+
+/**
+ * Reads the children of a master element, stopping at the first one that is incomplete.
+ */
+function readChildren(buffer: Buffer): { id: string; data: Buffer }[] {
+  const children = [];
+
+  for (let offset = 0; offset < buffer.length; ) {
+    const idLength = vintLength(buffer, offset);
+    if (idLength === WebmBaseDemuxer.TOO_SHORT) {
+      break;
+    }
+    const sizeLength = vintLength(buffer, offset + idLength);
+    if (sizeLength === WebmBaseDemuxer.TOO_SHORT) {
+      break;
+    }
+    const dataStart = offset + idLength + sizeLength;
+    const size = readVintValue(buffer, offset + idLength, sizeLength);
+    if (size === undefined || dataStart + size > buffer.length) {
+      break;
+    }
+    children.push({
+      id: buffer.slice(offset, offset + idLength).toString('hex'),
+      data: buffer.slice(dataStart, dataStart + size),
+    });
+    offset = dataStart + size;
+  }
+
+  return children;
+}
+
+// An EBML size with all its value bits set to 1, meaning that the size of the element is unknown
+const UNKNOWN_SIZE = Buffer.from([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]);
+
+/**
+ * Encodes a number as an EBML variable-size integer.
+ * @param value the number to encode.
+ * @param [length] the number of bytes to use, the smallest possible by default.
+ */
+function encodeVint(value: number, length?: number): Buffer {
+  if (typeof length === 'undefined') {
+    length = 1;
+    // A value with all its bits set to 1 is reserved
+    while (value >= 2 ** (7 * length) - 1) {
+      length++;
+    }
+  }
+  const buffer = Buffer.alloc(length);
+  let remaining = value;
+  for (let i = length - 1; i >= 0; i--) {
+    buffer[i] = remaining % 256;
+    remaining = Math.floor(remaining / 256);
+  }
+  buffer[0] |= 1 << (8 - length);
+  return buffer;
+}
+
+/**
+ * Encodes an unsigned integer as the data of an EBML element.
+ * @param value the number to encode.
+ * @param [length] the number of bytes to use, the smallest possible by default.
+ */
+function encodeUint(value: number, length?: number): Buffer {
+  if (typeof length === 'undefined') {
+    length = 1;
+    while (value >= 2 ** (8 * length)) {
+      length++;
+    }
+  }
+  const buffer = Buffer.alloc(length);
+  let remaining = value;
+  for (let i = length - 1; i >= 0; i--) {
+    buffer[i] = remaining % 256;
+    remaining = Math.floor(remaining / 256);
+  }
+  return buffer;
+}
+
+/**
+ * Encodes a floating-point number as the data of an EBML element.
+ * @param value the number to encode.
+ */
+function encodeFloat(value: number): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeDoubleBE(value);
+  return buffer;
+}
+
+/**
+ * Creates an EBML element.
+ * @param id the EBML ID of the element in hex string form.
+ * @param data the data of the element, or its children.
+ */
+function ebmlElement(id: string, data: Buffer | Buffer[]): Buffer {
+  const content = Array.isArray(data) ? Buffer.concat(data) : data;
+  return Buffer.concat([Buffer.from(id, 'hex'), encodeVint(content.length), content]);
+}
+
+/**
+ * Creates an EBML Void element that occupies exactly `length` bytes (at least 2).
+ * @param length the total length of the element.
+ */
+function ebmlVoid(length: number): Buffer {
+  // The size of the data must account for the length of the size itself
+  let sizeLength = 1;
+  while (length - 1 - sizeLength >= 2 ** (7 * sizeLength) - 1) {
+    sizeLength++;
+  }
+  const dataLength = length - 1 - sizeLength;
+  return Buffer.concat([Buffer.from('ec', 'hex'), encodeVint(dataLength, sizeLength), Buffer.alloc(dataLength)]);
+}
+
+/**
+ * The description of the single track written by a WebM muxer.
+ */
+export interface WebmMuxerTrack {
+  /**
+   * the Matroska codec ID, e.g. `A_OPUS`
+   */
+  codecId: string;
+  /**
+   * the codec-specific initialisation data
+   */
+  codecPrivate?: Buffer;
+  /**
+   * the delay introduced by the codec, in nanoseconds
+   */
+  codecDelay?: number;
+  /**
+   * the amount of data that must be decoded before a seek target to get accurate output, in nanoseconds
+   */
+  seekPreRoll?: number;
+  /**
+   * the sampling frequency in Hz
+   */
+  samplingFrequency: number;
+  /**
+   * the number of channels
+   */
+  channels: number;
+}
+
+export interface WebmBaseMuxerOptions extends TransformOptions {
+  /**
+   * whether the output is seekable: if it is, Cues are written at the end of the stream, and the `header` event
+   * is emitted with the final version of the header (defaults to false)
+   */
+  cues?: boolean;
+  /**
+   * the maximum duration of a cluster, in milliseconds (defaults to 1000, at most 32767)
+   */
+  clusterDuration?: number;
+  /**
+   * metadata to write as Matroska tags, e.g. `{ TITLE: 'My song', ARTIST: 'Me' }`
+   */
+  tags?: Record<string, string>;
+}
+
+interface CuePoint {
+  time: number;
+  position: number;
+}
+
+/**
+ * Base class for WebM muxers (e.g. `opus.WebmMuxer`).
+ * **You shouldn't directly instantiate this class, use the `opus.WebmMuxer` implementation instead!**
+ */
+export class WebmBaseMuxer extends Transform {
+  /**
+   * The number of units per second of the durations returned by `_packetDuration` (e.g. 48000 for Opus).
+   */
+  protected readonly timeBase: number = 48000;
+
+  private readonly _cues: boolean;
+  private readonly _clusterDuration: number;
+  private readonly _tags: Record<string, string>;
+  private _headerWritten = false;
+  private _position = 0;
+  private _segmentPosition = 0;
+  private _segmentDataPosition = 0;
+  private _time = 0;
+  private _clusterTime = 0;
+  private _clusterBlocks: Buffer[] = [];
+  private _cuePoints: CuePoint[] = [];
+
+  /**
+   * Creates a new WebM muxer.
+   * @param [options] options that you would pass to a regular Transform stream, plus a few more.
+   */
+  public constructor({ cues = false, clusterDuration = 1000, tags = {}, ...options }: WebmBaseMuxerOptions = {}) {
+    super({ writableObjectMode: true, ...options });
+
+    if (clusterDuration <= 0 || clusterDuration > 32767) {
+      throw new Error('clusterDuration should be between 1 and 32767 milliseconds');
+    }
+
+    this._cues = cues;
+    this._clusterDuration = clusterDuration;
+    this._tags = tags;
+  }
+
+  public _transform(chunk: Buffer, encoding: BufferEncoding, done: TransformCallback): void {
+    try {
+      this._writeHeader();
+
+      const timecode = Math.round((this._time * 1000) / this.timeBase);
+      if (this._clusterBlocks.length > 0 && timecode - this._clusterTime >= this._clusterDuration) {
+        this._flushCluster();
+      }
+      if (this._clusterBlocks.length === 0) {
+        this._clusterTime = timecode;
+      }
+
+      const header = Buffer.alloc(4);
+      // Track number 1 (as an EBML variable-size integer), relative timecode and keyframe flag
+      header.writeUInt8(0x81, 0);
+      header.writeInt16BE(timecode - this._clusterTime, 1);
+      header.writeUInt8(0x80, 3);
+      this._clusterBlocks.push(ebmlElement('a3', [header, chunk]));
+
+      this._time += this._packetDuration(chunk);
+    } catch (error) {
+      return done(error);
+    }
+
+    return done();
+  }
+
+  public _flush(done: TransformCallback): void {
+    try {
+      this._writeHeader();
+      if (this._clusterBlocks.length > 0) {
+        this._flushCluster();
+      }
+
+      if (this._cues) {
+        const cuesPosition = this._position - this._segmentDataPosition;
+        this._push(
+          ebmlElement(
+            '1c53bb6b', // Cues
+            this._cuePoints.map(({ time, position }) =>
+              ebmlElement('bb', [
+                ebmlElement('b3', encodeUint(time)),
+                ebmlElement('b7', [ebmlElement('f7', encodeUint(1)), ebmlElement('f1', encodeUint(position))]),
+              ]),
+            ),
+          ),
+        );
+        this.emit('header', this._segmentHeader(cuesPosition), this._segmentPosition);
+      }
+    } catch (error) {
+      return done(error);
+    }
+
+    return done();
+  }
+
+  /**
+   * Returns the description of the track.
+   */
+  protected _track(): WebmMuxerTrack {
+    throw new Error('Method not implemented.');
+  }
+
+  /**
+   * Returns the duration of a packet, in units of `timeBase`.
+   * @param packet the packet.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected _packetDuration(packet: Buffer): number {
+    throw new Error('Method not implemented.');
+  }
+
+  /**
+   * Pushes data, keeping track of the number of bytes written so far.
+   * @param data the data to push.
+   */
+  private _push(data: Buffer): void {
+    this._position += data.length;
+    this.push(data);
+  }
+
+  /**
+   * Writes the EBML header, the start of the Segment, and the Tracks and Tags elements if they haven't been
+   * written yet.
+   */
+  private _writeHeader(): void {
+    if (this._headerWritten) {
+      return;
+    }
+    this._headerWritten = true;
+
+    this._push(
+      ebmlElement('1a45dfa3', [
+        ebmlElement('4286', encodeUint(1)), // EBMLVersion
+        ebmlElement('42f7', encodeUint(1)), // EBMLReadVersion
+        ebmlElement('42f2', encodeUint(4)), // EBMLMaxIDLength
+        ebmlElement('42f3', encodeUint(8)), // EBMLMaxSizeLength
+        ebmlElement('4282', Buffer.from('webm')), // DocType
+        ebmlElement('4287', encodeUint(4)), // DocTypeVersion
+        ebmlElement('4285', encodeUint(2)), // DocTypeReadVersion
+      ]),
+    );
+
+    this._segmentPosition = this._position;
+    const header = this._segmentHeader();
+    this._segmentDataPosition = this._segmentPosition + 4 + UNKNOWN_SIZE.length;
+    this._push(header);
+  }
+
+  /**
+   * Creates the start of the Segment: its ID and size, followed by the SeekHead (if Cues are written), Info,
+   * Tracks and Tags elements. The Segment size, SeekHead and duration are only filled once the stream is
+   * finished, without changing the length of the header.
+   * @param [cuesPosition] the position of the Cues element, relative to the start of the Segment data.
+   */
+  private _segmentHeader(cuesPosition?: number): Buffer {
+    const final = typeof cuesPosition !== 'undefined';
+    const track = this._track();
+
+    const info = ebmlElement('1549a966', [
+      ebmlElement('2ad7b1', encodeUint(1e6)), // TimecodeScale
+      ebmlElement('4d80', Buffer.from('prism-media')), // MuxingApp
+      ebmlElement('5741', Buffer.from('prism-media')), // WritingApp
+      // Duration, in milliseconds
+      final ? ebmlElement('4489', encodeFloat((this._time * 1000) / this.timeBase)) : ebmlVoid(11),
+    ]);
+
+    const tracks = ebmlElement('1654ae6b', [
+      ebmlElement('ae', [
+        ebmlElement('d7', encodeUint(1)), // TrackNumber
+        ebmlElement('73c5', encodeUint(1)), // TrackUID
+        ebmlElement('83', encodeUint(2)), // TrackType (audio)
+        ebmlElement('86', Buffer.from(track.codecId)), // CodecID
+        ...(track.codecPrivate ? [ebmlElement('63a2', track.codecPrivate)] : []),
+        ...(track.codecDelay ? [ebmlElement('56aa', encodeUint(track.codecDelay))] : []),
+        ...(track.seekPreRoll ? [ebmlElement('56bb', encodeUint(track.seekPreRoll))] : []),
+        ebmlElement('e1', [
+          ebmlElement('b5', encodeFloat(track.samplingFrequency)), // SamplingFrequency
+          ebmlElement('9f', encodeUint(track.channels)), // Channels
+        ]),
+      ]),
+    ]);
+
+    const entries = Object.entries(this._tags);
+    const tags =
+      entries.length > 0
+        ? ebmlElement('1254c367', [
+            ebmlElement('7373', [
+              ebmlElement('63c0', []), // Targets (the whole Segment)
+              ...entries.map(([name, value]) =>
+                ebmlElement('67c8', [ebmlElement('45a3', Buffer.from(name)), ebmlElement('4487', Buffer.from(value))]),
+              ),
+            ]),
+          ])
+        : Buffer.alloc(0);
+
+    let seekHead = Buffer.alloc(0);
+    if (this._cues) {
+      // Positions are written with a fixed length so that the final SeekHead has the same length
+      const seek = (id: string, position: number) =>
+        ebmlElement('4dbb', [
+          ebmlElement('53ab', Buffer.from(id, 'hex')),
+          ebmlElement('53ac', encodeUint(position, 8)),
+        ]);
+      const cuesSeek = seek('1c53bb6b', cuesPosition ?? 0);
+      const length = seek('1549a966', 0).length * 2 + cuesSeek.length;
+      const headLength = 4 + encodeVint(length).length + length;
+      seekHead = ebmlElement('114d9b74', [
+        seek('1549a966', headLength),
+        seek('1654ae6b', headLength + info.length),
+        final ? cuesSeek : ebmlVoid(cuesSeek.length),
+      ]);
+    }
+
+    const data = Buffer.concat([seekHead, info, tracks, tags]);
+    const size = final ? encodeVint(this._position - this._segmentDataPosition, 8) : UNKNOWN_SIZE;
+    return Buffer.concat([Buffer.from('18538067', 'hex'), size, data]);
+  }
+
+  /**
+   * Writes the current cluster.
+   */
+  private _flushCluster(): void {
+    this._cuePoints.push({ time: this._clusterTime, position: this._position - this._segmentDataPosition });
+    this._push(ebmlElement('1f43b675', [ebmlElement('e7', encodeUint(this._clusterTime)), ...this._clusterBlocks]));
+    this._clusterBlocks = [];
+  }
+}
@@ -3,4 +3,14 @@
  * **You shouldn't prefix imports from this namespace with `core`.**
  */
 export * from './FFmpeg';
+export * from './OggDemuxer';
 export * from './VolumeTransformer';
+export * from './PcmFormat';
+export type { LimiterOptions } from './Limiter';
+export * from './LoudnessMeter';
+export * from './Mixer';
+export type { SeekableSource } from './Seekable';
+export { PACKET_FLAGS } from './DemuxedPacket';
+export type { DemuxedPacket } from './DemuxedPacket';
+export type { WebmChapter, WebmInfo, WebmSimpleTag, WebmTag, WebmTrack } from './WebmBase';
+export * from './VorbisComment';
@@ -0,0 +1,41 @@
+import * as binding from '@typescord/opus';
+
+/**
+ * An Opus encoder and decoder of `@typescord/opus`, which doesn't declare its types. Its methods are those of
+ * `@discordjs/opus` (the `OpusEncoder` class), from which it is forked.
+ */
+export interface Opus {
+  /**
+   * Encodes a frame of interleaved signed 16-bit PCM.
+   * @param pcm the frame to encode.
+   */
+  encode(pcm: Buffer): Buffer;
+  /**
+   * Decodes a packet to interleaved signed 16-bit PCM, or conceals a lost packet if it is empty.
+   * @param packet the packet to decode.
+   */
+  decode(packet: Buffer): Buffer;
+  /**
+   * Applies an encoder CTL.
+   * @param ctl the CTL.
+   * @param value the value.
+   */
+  applyEncoderCTL(ctl: number, value: number): void;
+  /**
+   * Applies a decoder CTL.
+   * @param ctl the CTL.
+   * @param value the value.
+   */
+  applyDecoderCTL(ctl: number, value: number): void;
+  /**
+   * Sets the bitrate of the encoder.
+   * @param bitrate the bitrate in bits per second.
+   */
+  setBitrate(bitrate: number): void;
+  /**
+   * Returns the bitrate of the encoder in bits per second.
+   */
+  getBitrate(): number;
+}
+
+export const Opus: new (rate: number, channels: number) => Opus = binding.Opus;
@@ -0,0 +1,133 @@
+import { Opus } from './Binding';
+import { ChannelMapping } from './OpusHead';
+import { fromSelfDelimited, toSelfDelimited } from './Packet';
+
+const BITRATE_CTL = 4002;
+const FORCE_CHANNELS_CTL = 4022;
+
+/**
+ * Encodes and decodes multistream Opus packets, which code more than 2 channels in several elementary (mono or
+ * stereo) streams, using an Opus instance for each elementary stream.
+ */
+export class MultistreamOpus {
+  private readonly channels: number;
+  private readonly mapping: ChannelMapping;
+  private readonly streams: Opus[];
+  // The channel of each elementary stream that is coded from each input channel, or undefined for silent channels
+  private readonly sources: (number | undefined)[][];
+
+  /**
+   * Creates a new multistream Opus encoder and decoder.
+   * @param rate the sampling rate in Hz.
+   * @param channels the number of channels.
+   * @param mapping the channel mapping.
+   */
+  public constructor(rate: number, channels: number, mapping: ChannelMapping) {
+    if (mapping.mapping.length !== channels) {
+      throw new Error('The channel mapping must have an entry for each channel');
+    }
+
+    this.channels = channels;
+    this.mapping = mapping;
+    this.streams = Array.from({ length: mapping.streams }, (_, i) => new Opus(rate, this._streamChannels(i)));
+    this.sources = this.streams.map((_, i) =>
+      Array.from({ length: this._streamChannels(i) }, (_, channel) => {
+        const index = i < mapping.coupledStreams ? i * 2 + channel : i + mapping.coupledStreams;
+        const source = mapping.mapping.indexOf(index);
+        return source === -1 ? undefined : source;
+      }),
+    );
+  }
+
+  /**
+   * Encodes interleaved signed 16-bit PCM to a multistream packet.
+   * @param pcm the audio to encode.
+   */
+  public encode(pcm: Buffer): Buffer {
+    const samples = pcm.length / (this.channels * 2);
+    const packets = this.streams.map((stream, i) => {
+      const sources = this.sources[i];
+      const input = Buffer.alloc(samples * sources.length * 2);
+      for (let sample = 0; sample < samples; sample++) {
+        for (const [channel, source] of sources.entries()) {
+          if (typeof source !== 'undefined') {
+            const value = pcm.readInt16LE((sample * this.channels + source) * 2);
+            input.writeInt16LE(value, (sample * sources.length + channel) * 2);
+          }
+        }
+      }
+      return stream.encode(input);
+    });
+
+    return Buffer.concat(packets.map((packet, i) => (i < packets.length - 1 ? toSelfDelimited(packet) : packet)));
+  }
+
+  /**
+   * Decodes a multistream packet to interleaved signed 16-bit PCM.
+   * @param packet the multistream packet, or an empty buffer if it was lost.
+   */
+  public decode(packet: Buffer): Buffer {
+    let offset = 0;
+    const outputs = this.streams.map((stream, i) => {
+      // An empty packet conceals a lost packet in every elementary stream
+      if (i === this.streams.length - 1 || packet.length === 0) {
+        return stream.decode(packet.slice(offset));
+      }
+      const { packet: streamPacket, length } = fromSelfDelimited(packet.slice(offset));
+      offset += length;
+      return stream.decode(streamPacket);
+    });
+
+    const samples = outputs[0].length / (this._streamChannels(0) * 2);
+    const pcm = Buffer.alloc(samples * this.channels * 2);
+    for (const [channel, index] of this.mapping.mapping.entries()) {
+      if (index === 255) {
+        continue;
+      }
+      const coupled = index < this.mapping.coupledStreams * 2;
+      const stream = coupled ? index >> 1 : index - this.mapping.coupledStreams;
+      const streamChannels = this._streamChannels(stream);
+      const streamChannel = coupled ? index & 1 : 0;
+      for (let sample = 0; sample < samples; sample++) {
+        const value = outputs[stream].readInt16LE((sample * streamChannels + streamChannel) * 2);
+        pcm.writeInt16LE(value, (sample * this.channels + channel) * 2);
+      }
+    }
+    return pcm;
+  }
+
+  /**
+   * Applies an encoder CTL to every elementary stream. The bitrate is shared between the elementary streams according
+   * to their number of channels, and mono streams are never forced to stereo.
+   * @param ctl the CTL.
+   * @param value the value.
+   */
+  public applyEncoderCTL(ctl: number, value: number): void {
+    for (const [i, stream] of this.streams.entries()) {
+      // Negative bitrates are the special OPUS_AUTO and OPUS_BITRATE_MAX values
+      if (ctl === BITRATE_CTL && value > 0) {
+        const codedChannels = this.mapping.streams + this.mapping.coupledStreams;
+        stream.applyEncoderCTL(ctl, Math.round((value * this._streamChannels(i)) / codedChannels));
+      } else if (ctl === FORCE_CHANNELS_CTL && value > 0) {
+        stream.applyEncoderCTL(ctl, Math.min(value, this._streamChannels(i)));
+      } else {
+        stream.applyEncoderCTL(ctl, value);
+      }
+    }
+  }
+
+  /**
+   * Applies a decoder CTL to every elementary stream.
+   * @param ctl the CTL.
+   * @param value the value.
+   */
+  public applyDecoderCTL(ctl: number, value: number): void {
+    for (const stream of this.streams) {
+      stream.applyDecoderCTL(ctl, value);
+    }
+  }
+
+  private _streamChannels(stream: number): number {
+    return stream < this.mapping.coupledStreams ? 2 : 1;
+  }
+}
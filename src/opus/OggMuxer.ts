@@ -0,0 +1,111 @@
+import { TransformCallback } from 'stream';
+import { OggBaseMuxer, OggBaseMuxerOptions } from '../core/OggBase';
+import { getPacketSamples } from '../core/OpusToc';
+import { serializeVorbisComment, VorbisPicture } from '../core/VorbisComment';
+import { ChannelMapping, createOpusHead } from './OpusHead';
+
+const OPUS_HEAD = Buffer.from('OpusHead');
+const OPUS_TAGS = Buffer.from('OpusTags');
+
+interface OggMuxerOptions extends OggBaseMuxerOptions {
+  /**
+   * the number of channels of the Opus stream (defaults to 2)
+   */
+  channels?: number;
+  /**
+   * the channel mapping of the Opus stream, e.g. the `mapping` of the encoder (defaults to the standard mapping of
+   * the number of channels)
+   */
+  mapping?: ChannelMapping;
+  /**
+   * the sampling rate in Hz of the original input, for information only (defaults to 48000)
+   */
+  rate?: number;
+  /**
+   * the number of samples (at 48 kHz) to discard from the decoder output when starting playback (defaults to 312,
+   * the look-ahead of libopus)
+   */
+  preSkip?: number;
+  /**
+   * the gain in dB to apply to the decoder output (defaults to 0)
+   */
+  gain?: number;
+  /**
+   * the vendor string written in the OpusTags header (defaults to `prism-media`)
+   */
+  vendor?: string;
+  /**
+   * the user comments written in the OpusTags header, by field name (e.g. `{ TITLE: 'Song', ARTIST: ['A', 'B'] }`)
+   */
+  comments?: Record<string, string | string[]>;
+  /**
+   * the pictures written in the OpusTags header, e.g. the cover art
+   */
+  pictures?: VorbisPicture[];
+}
+
+/**
+ * Muxes a stream of Opus packets to output an Ogg stream.
+ *
+ * Note that any stream you pipe into this must be in
+ * [object mode](https://nodejs.org/api/stream.html#stream_object_mode) and should output Opus packets.
+ * @example
+ * const fs = require('fs');
+ * const encoder = new prism.opus.Encoder({ frameSize: 960, channels: 2, rate: 48000 });
+ * pcmAudio
+ *   .pipe(encoder)
+ *   .pipe(new prism.opus.OggMuxer({ channels: 2 }))
+ *   .pipe(fs.createWriteStream('./audio.opus'));
+ */
+export class OggMuxer extends OggBaseMuxer {
+  private readonly head: Buffer;
+  private readonly tags: Buffer;
+
+  /**
+   * Creates a new OggOpus muxer.
+   * @param [options] options that you would pass to a regular Transform stream, plus a few more.
+   */
+  public constructor({
+    channels = 2,
+    mapping,
+    rate = 48000,
+    preSkip = 312,
+    gain = 0,
+    vendor = 'prism-media',
+    comments = {},
+    pictures = [],
+    ...options
+  }: OggMuxerOptions = {}) {
+    super(options);
+
+    this.head = createOpusHead({ channels, rate, preSkip, gain, mapping });
+    this.tags = Buffer.concat([
+      OPUS_TAGS,
+      serializeVorbisComment({
+        vendor,
+        comments: Object.fromEntries(
+          Object.entries(comments).map(([key, values]) => [key, Array.isArray(values) ? values : [values]]),
+        ),
+        pictures,
+      }),
+    ]);
+  }
+
+  public _transform(chunk: Buffer, encoding: BufferEncoding, done: TransformCallback): void {
+    // Header packets are generated by the muxer, so any found in the input are discarded
+    const signature = chunk.slice(0, 8);
+    if (signature.equals(OPUS_HEAD) || signature.equals(OPUS_TAGS)) {
+      return done();
+    }
+
+    return super._transform(chunk, encoding, done);
+  }
+
+  protected _headers(): Buffer[] {
+    return [this.head, this.tags];
+  }
+
+  protected _packetDuration(packet: Buffer): number {
+    return getPacketSamples(packet);
+  }
+}
@@ -1,25 +1,132 @@
 // Partly based on https://github.com/Rantanen/node-opus/blob/master/lib/Encoder.js
 
-import { Opus } from '@typescord/opus';
-import { Transform, TransformCallback, TransformOptions } from 'stream';
-
+import { Readable, Transform, TransformCallback, TransformOptions } from 'stream';
+import { DemuxedPacket } from '../core/DemuxedPacket';
+import { getPacketSamples } from '../core/OpusToc';
+import { parseVorbisComment } from '../core/VorbisComment';
+import { Opus } from './Binding';
+import { MultistreamOpus } from './Multistream';
+import { ChannelMapping, defaultChannelMapping, readChannelMapping } from './OpusHead';
+import { OpusBandwidth } from './Packet';
+
+// The encoder requests of libopus
 const CTL = {
+  APPLICATION: 4000,
   BITRATE: 4002,
+  MAX_BANDWIDTH: 4004,
+  VBR: 4006,
+  COMPLEXITY: 4010,
   FEC: 4012,
   PLP: 4014,
+  DTX: 4016,
+  VBR_CONSTRAINT: 4020,
+  FORCE_CHANNELS: 4022,
+  SIGNAL: 4024,
+  LSB_DEPTH: 4036,
+  PREDICTION_DISABLED: 4042,
+};
+
+const OPUS_AUTO = -1000;
+const OPUS_BITRATE_MAX = -1;
+
+const APPLICATIONS = {
+  voip: 2048,
+  audio: 2049,
+  lowdelay: 2051,
+};
+
+const SIGNALS = {
+  auto: OPUS_AUTO,
+  voice: 3001,
+  music: 3002,
+};
+
+const BANDWIDTHS: Record<OpusBandwidth, number> = {
+  narrowband: 1101,
+  mediumband: 1102,
+  wideband: 1103,
+  superwideband: 1104,
+  fullband: 1105,
 };
 
+/**
+ * The intended application of an encoder: `voip` favours speech intelligibility, `audio` favours faithfulness to the
+ * input and `lowdelay` disables the speech-optimized mode to reduce the algorithmic delay.
+ */
+export type OpusApplication = keyof typeof APPLICATIONS;
+
+/**
+ * The type of signal being encoded, which biases the choice between the speech and music modes of the encoder.
+ */
+export type OpusSignal = keyof typeof SIGNALS;
+
+/**
+ * How the bitrate of an encoder varies: `vbr` (variable), `cvbr` (constrained variable, close to the target bitrate
+ * over short periods) or `cbr` (constant).
+ */
+export type OpusBitrateMode = 'vbr' | 'cvbr' | 'cbr';
+
+/**
+ * The settings applied to an encoder with its setters.
+ */
+interface EncoderSettings {
+  bitrate: number | 'auto' | 'max';
+  fec: boolean;
+  plp: number;
+  complexity: number;
+  bitrateMode: OpusBitrateMode;
+  signal: OpusSignal;
+  application: OpusApplication;
+  maxBandwidth: OpusBandwidth;
+  dtx: boolean;
+  lsbDepth: number;
+  predictionDisabled: boolean;
+  forceChannels: 'auto' | 1 | 2;
+}
+
+/**
+ * Checks that the value of a setting is within its valid range.
+ * @throws Will throw an error if the value is out of range, or isn't an integer when `integer` is true.
+ */
+function checkRange(name: string, value: number, min: number, max: number, integer = true): void {
+  if (Number.isNaN(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+    throw new RangeError(`The ${name} must be ${integer ? 'an integer ' : ''}between ${min} and ${max}, got ${value}`);
+  }
+}
+
+/**
+ * Checks that a value is one of the keys of a table of values.
+ * @throws Will throw an error if the value isn't one of the keys.
+ */
+function checkKey<T extends Record<string, number>>(
+  name: string,
+  value: string,
+  table: T,
+): asserts value is keyof T & string {
+  if (!Object.prototype.hasOwnProperty.call(table, value)) {
+    throw new RangeError(`The ${name} must be one of ${Object.keys(table).join(', ')}, got ${value}`);
+  }
+}
+
 const OPUS_HEAD = Buffer.from('OpusHead');
 const OPUS_TAGS = Buffer.from('OpusTags');
 
-// frame size = (channels * rate * frame_duration) / 1000
+// The frame durations allowed by Opus, in milliseconds
+const FRAME_DURATIONS = [2.5, 5, 10, 20, 40, 60];
+
+// frame size = (rate * frame_duration) / 1000
 
 interface OpusStreamOptions extends TransformOptions {
   /**
-   * the frame size in bytes to use (e.g. 960 for stereo audio at 48KHz with a frame
-   * duration of 20ms)
+   * the frame size in samples per channel to use (e.g. 960 for audio at 48KHz with a frame duration of 20ms), which
+   * can be given instead of `frameDuration`
    */
-  frameSize: number;
+  frameSize?: number;
+  /**
+   * the frame duration in milliseconds to use: 2.5, 5, 10, 20, 40 or 60 (defaults to 20, or the duration of
+   * `frameSize`)
+   */
+  frameDuration?: number;
   /**
    * the number of channels to use
    */
@@ -28,6 +135,35 @@ interface OpusStreamOptions extends TransformOptions {
    * the sampling rate in Hz
    */
   rate: number;
+  /**
+   * the channel mapping, which allows more than 2 channels to be coded in multistream packets (defaults to the
+   * standard mapping of the number of channels: family 0 for mono and stereo, family 1 for surround sound up to 7.1
+   * and family 255 otherwise)
+   */
+  mapping?: ChannelMapping;
+}
+
+/**
+ * Gets the frame size in samples per channel from a frame size or a frame duration.
+ * @throws Will throw an error if the frame duration isn't allowed by Opus, or if the frame size doesn't match it.
+ */
+function getFrameSize(rate: number, frameSize?: number, frameDuration?: number): number {
+  const duration = frameDuration ?? (typeof frameSize !== 'undefined' ? (frameSize * 1000) / rate : 20);
+  if (!FRAME_DURATIONS.includes(duration)) {
+    throw new RangeError(`The frame duration must be one of ${FRAME_DURATIONS.join(', ')} ms, got ${duration} ms`);
+  }
+  const size = (rate * duration) / 1000;
+  if (typeof frameSize !== 'undefined' && frameSize !== size) {
+    throw new RangeError(`The frame size ${frameSize} doesn't match the frame duration of ${duration} ms`);
+  }
+  return size;
+}
+
+/**
+ * Creates the Opus instance of a channel mapping.
+ */
+function createOpus(rate: number, channels: number, mapping: ChannelMapping): Opus | MultistreamOpus {
+  return mapping.family === 0 ? new Opus(rate, channels) : new MultistreamOpus(rate, channels, mapping);
 }
 
 /**
@@ -35,24 +171,53 @@ interface OpusStreamOptions extends TransformOptions {
  * **You shouldn't directly instantiate this class, see `opus.Encoder` and `opus.Decoder` instead!**
  */
 class OpusStream extends Transform {
-  public encoder?: Opus;
+  public encoder?: Opus | MultistreamOpus;
+  protected _mapping: ChannelMapping;
+  protected readonly _settings: Partial<EncoderSettings> = {};
   protected readonly rate: number;
-  protected readonly frameSize: number;
+  protected frameSize: number;
   protected readonly channels: number;
-  protected readonly required: number;
 
   /**
    * Creates a new Opus transformer.
    * @param options options that you would pass to a regular Transform stream
    */
-  public constructor({ frameSize, rate, channels, ...options }: OpusStreamOptions) {
+  public constructor({
+    frameSize,
+    frameDuration,
+    rate,
+    channels,
+    mapping = defaultChannelMapping(channels),
+    ...options
+  }: OpusStreamOptions) {
     super({ readableObjectMode: true, ...options });
 
-    this.encoder = new Opus(rate, channels);
+    this.frameSize = getFrameSize(rate, frameSize, frameDuration);
+    this.encoder = createOpus(rate, channels, mapping);
+    this._mapping = mapping;
     this.channels = channels;
     this.rate = rate;
-    this.frameSize = frameSize;
-    this.required = frameSize * channels * 2;
+  }
+
+  /**
+   * The frame duration in milliseconds.
+   */
+  public get frameDuration(): number {
+    return (this.frameSize * 1000) / this.rate;
+  }
+
+  /**
+   * The number of bytes of PCM audio in a frame.
+   */
+  protected get required(): number {
+    return this.frameSize * this.channels * 2;
+  }
+
+  /**
+   * The channel mapping of the stream, which should be given to muxers to write it in the OpusHead.
+   */
+  public get mapping(): ChannelMapping {
+    return this._mapping;
   }
 
   protected _encode(buffer: Buffer): Buffer | undefined {
@@ -64,30 +229,58 @@ class OpusStream extends Transform {
   }
 
   /**
-   * Sets the bitrate of the stream.
-   * @param bitrate the bitrate to use use, e.g. 48000
+   * Sets the target bitrate of the stream.
+   * @param bitrate the bitrate in bits per second, between 6000 and 510000 per elementary stream (e.g. 48000), `auto`
+   * to let libopus choose it from the sampling rate and the number of channels, or `max` to use as many bits as
+   * possible.
+   * @throws Will throw an error if the bitrate is out of range.
    */
-  public setBitrate(bitrate: number): void {
-    this.encoder?.applyEncoderCTL.apply(this.encoder, [CTL.BITRATE, Math.min(128e3, Math.max(16e3, bitrate))]);
+  public setBitrate(bitrate: number | 'auto' | 'max'): void {
+    if (bitrate === 'auto' || bitrate === 'max') {
+      this._applyCTL('bitrate', bitrate, CTL.BITRATE, bitrate === 'auto' ? OPUS_AUTO : OPUS_BITRATE_MAX);
+    } else {
+      checkRange('bitrate', bitrate, 6e3 * this._mapping.streams, 510e3 * this._mapping.streams);
+      this._applyCTL('bitrate', bitrate, CTL.BITRATE, bitrate);
+    }
   }
 
   /**
-   * Enables or disables forward error correction.
+   * Enables or disables forward error correction. The FEC data is only useful to other decoders: `Decoder` can't recover
+   * a lost packet from it, as the Opus bindings don't expose in-band FEC decoding, and conceals it instead.
    * @param enabled whether or not to enable FEC.
    */
   public setFEC(enabled: boolean): void {
-    this.encoder?.applyEncoderCTL.apply(this.encoder, [CTL.FEC, +enabled]);
+    this._applyCTL('fec', enabled, CTL.FEC, +enabled);
   }
 
   /**
    * Sets the expected packet loss over network transmission.
    * @param [percentage] a percentage (represented between 0 and 1)
+   * @throws Will throw an error if the percentage is out of range.
    */
   public setPLP(percentage: number): void {
-    this.encoder?.applyEncoderCTL.apply(this.encoder, [CTL.PLP, Math.min(100, Math.max(0, percentage * 100))]);
+    checkRange('packet loss percentage', percentage, 0, 1, false);
+    this._applyCTL('plp', percentage, CTL.PLP, Math.round(percentage * 100));
+  }
+
+  /**
+   * Applies an encoder CTL and remembers the setting it corresponds to.
+   * @param setting the name of the setting.
+   * @param value the value of the setting.
+   * @param ctl the CTL.
+   * @param ctlValue the value given to libopus.
+   */
+  protected _applyCTL<K extends keyof EncoderSettings>(
+    setting: K,
+    value: EncoderSettings[K],
+    ctl: number,
+    ctlValue: number,
+  ): void {
+    this.encoder?.applyEncoderCTL(ctl, ctlValue);
+    this._settings[setting] = value;
   }
 
-  public _final(callback: () => void): void {
+  public _final(callback: (error?: Error | null) => void): void {
     this.cleanup();
     callback();
   }
@@ -105,10 +298,26 @@ class OpusStream extends Transform {
   }
 }
 
+interface EncoderOptions extends OpusStreamOptions {
+  /**
+   * what to do with the audio left at the end of the stream when it doesn't fill a frame: `pad` it with silence
+   * (the default), `drop` it, or emit an `error`
+   */
+  partialFrame?: 'pad' | 'drop' | 'error';
+}
+
 /**
  * An Opus encoder stream.
  *
  * Outputs opus packets in [object mode](https://nodejs.org/api/stream.html#stream_object_mode).
+ *
+ * When the stream ends, the `padding` event is emitted with the duration of the silence added to the last frame, in
+ * 48 kHz samples whatever the rate of the encoder (the granule position units of Ogg Opus), which should be trimmed
+ * from the end of the stream by muxers (see `OggMuxer.setEndTrim`).
+ *
+ * The getters of the encoder settings (`getBitrate`, `getComplexity`...) return the values last given to the setters,
+ * not values queried from libopus, whose get CTLs the Opus bindings don't expose: e.g. `getBitrate` returns `auto`
+ * rather than the bitrate libopus chose.
  * @example
  * const encoder = new prism.opus.Encoder({ frameSize: 960, channels: 2, rate: 48000 });
  * pcmAudio.pipe(encoder);
@@ -116,13 +325,219 @@ class OpusStream extends Transform {
  */
 export class Encoder extends OpusStream {
   private buffer?: Buffer = Buffer.alloc(0);
+  private encoded = false;
+  private readonly partialFrame: 'pad' | 'drop' | 'error';
+  private padding = 0;
 
   /**
    * Creates a new Opus encoder stream.
    * @param options options that you would pass to a regular OpusStream, plus a few more:
    */
-  public constructor(options: OpusStreamOptions) {
+  public constructor({ partialFrame = 'pad', ...options }: EncoderOptions) {
     super(options);
+
+    this.partialFrame = partialFrame;
+  }
+
+  /**
+   * The duration of the silence added to the last frame in 48 kHz samples, which is known once the stream has ended
+   * (see the `padding` event).
+   */
+  public get paddingSamples(): number {
+    return this.padding;
+  }
+
+  /**
+   * Sets the frame duration, which applies from the next frame. Shorter frames reduce the latency, while longer frames
+   * reduce the bitrate overhead.
+   * @param duration the frame duration in milliseconds: 2.5, 5, 10, 20, 40 or 60.
+   * @throws Will throw an error if the frame duration isn't allowed by Opus.
+   */
+  public setFrameDuration(duration: number): void {
+    this.frameSize = getFrameSize(this.rate, undefined, duration);
+  }
+
+  /**
+   * Sets the computational complexity of the encoder, higher values giving a better quality at a given bitrate.
+   * @param complexity the complexity, between 0 and 10.
+   * @throws Will throw an error if the complexity is out of range.
+   */
+  public setComplexity(complexity: number): void {
+    checkRange('complexity', complexity, 0, 10);
+    this._applyCTL('complexity', complexity, CTL.COMPLEXITY, complexity);
+  }
+
+  /**
+   * Sets whether the bitrate is variable (the default), constrained variable or constant.
+   * @param mode `vbr`, `cvbr` or `cbr`.
+   * @throws Will throw an error if the mode is invalid.
+   */
+  public setBitrateMode(mode: OpusBitrateMode): void {
+    if (!['vbr', 'cvbr', 'cbr'].includes(mode)) {
+      throw new RangeError(`The bitrate mode must be one of vbr, cvbr, cbr, got ${mode}`);
+    }
+    this._applyCTL('bitrateMode', mode, CTL.VBR, +(mode !== 'cbr'));
+    if (mode !== 'cbr') {
+      this.encoder?.applyEncoderCTL(CTL.VBR_CONSTRAINT, +(mode === 'cvbr'));
+    }
+  }
+
+  /**
+   * Sets the type of signal being encoded.
+   * @param signal `auto` (the default), `voice` or `music`.
+   * @throws Will throw an error if the signal type is invalid.
+   */
+  public setSignal(signal: OpusSignal): void {
+    checkKey('signal type', signal, SIGNALS);
+    this._applyCTL('signal', signal, CTL.SIGNAL, SIGNALS[signal]);
+  }
+
+  /**
+   * Sets the intended application of the encoder, which can only be done before the first frame is encoded.
+   * @param application `voip`, `audio` (the default) or `lowdelay`.
+   * @throws Will throw an error if the application is invalid or if audio has already been encoded.
+   */
+  public setApplication(application: OpusApplication): void {
+    checkKey('application', application, APPLICATIONS);
+    if (this.encoded) {
+      throw new Error('The application cannot be changed after audio has been encoded');
+    }
+    this._applyCTL('application', application, CTL.APPLICATION, APPLICATIONS[application]);
+  }
+
+  /**
+   * Sets the maximum bandwidth that the encoder may choose.
+   * @param bandwidth `narrowband`, `mediumband`, `wideband`, `superwideband` or `fullband` (the default).
+   * @throws Will throw an error if the bandwidth is invalid.
+   */
+  public setMaxBandwidth(bandwidth: OpusBandwidth): void {
+    checkKey('bandwidth', bandwidth, BANDWIDTHS);
+    this._applyCTL('maxBandwidth', bandwidth, CTL.MAX_BANDWIDTH, BANDWIDTHS[bandwidth]);
+  }
+
+  /**
+   * Enables or disables discontinuous transmission, which reduces the bitrate during silence.
+   * @param enabled whether or not to enable DTX.
+   */
+  public setDTX(enabled: boolean): void {
+    this._applyCTL('dtx', enabled, CTL.DTX, +enabled);
+  }
+
+  /**
+   * Sets the depth of the input signal, which allows the encoder to ignore noise below it.
+   * @param depth the depth in bits, between 8 and 24 (16 is the depth of the PCM input, 24 the default).
+   * @throws Will throw an error if the depth is out of range.
+   */
+  public setLSBDepth(depth: number): void {
+    checkRange('LSB depth', depth, 8, 24);
+    this._applyCTL('lsbDepth', depth, CTL.LSB_DEPTH, depth);
+  }
+
+  /**
+   * Disables or enables the use of inter-frame prediction, which makes every frame decodable on its own at the cost
+   * of quality.
+   * @param disabled whether or not to disable prediction.
+   */
+  public setPredictionDisabled(disabled: boolean): void {
+    this._applyCTL('predictionDisabled', disabled, CTL.PREDICTION_DISABLED, +disabled);
+  }
+
+  /**
+   * Forces the encoder to code the audio as mono or stereo.
+   * @param channels `auto` (the default), 1, or 2 for streams with at least 2 channels.
+   * @throws Will throw an error if the number of channels is invalid.
+   */
+  public setForceChannels(channels: 'auto' | 1 | 2): void {
+    if (channels === 'auto') {
+      this._applyCTL('forceChannels', channels, CTL.FORCE_CHANNELS, OPUS_AUTO);
+    } else {
+      checkRange('forced number of channels', channels, 1, Math.min(2, this.channels));
+      this._applyCTL('forceChannels', channels, CTL.FORCE_CHANNELS, channels);
+    }
+  }
+
+  /**
+   * The bitrate set with `setBitrate`, or undefined if the default (`auto`) is used.
+   */
+  public getBitrate(): number | 'auto' | 'max' | undefined {
+    return this._settings.bitrate;
+  }
+
+  /**
+   * Whether forward error correction was enabled with `setFEC`, or undefined if the default (disabled) is used.
+   */
+  public getFEC(): boolean | undefined {
+    return this._settings.fec;
+  }
+
+  /**
+   * The expected packet loss set with `setPLP`, or undefined if the default (0) is used.
+   */
+  public getPLP(): number | undefined {
+    return this._settings.plp;
+  }
+
+  /**
+   * The complexity set with `setComplexity`, or undefined if the default of libopus is used.
+   */
+  public getComplexity(): number | undefined {
+    return this._settings.complexity;
+  }
+
+  /**
+   * The bitrate mode set with `setBitrateMode`, or undefined if the default (`vbr`) is used.
+   */
+  public getBitrateMode(): OpusBitrateMode | undefined {
+    return this._settings.bitrateMode;
+  }
+
+  /**
+   * The signal type set with `setSignal`, or undefined if the default (`auto`) is used.
+   */
+  public getSignal(): OpusSignal | undefined {
+    return this._settings.signal;
+  }
+
+  /**
+   * The application set with `setApplication`, or undefined if the default (`audio`) is used.
+   */
+  public getApplication(): OpusApplication | undefined {
+    return this._settings.application;
+  }
+
+  /**
+   * The maximum bandwidth set with `setMaxBandwidth`, or undefined if the default (`fullband`) is used.
+   */
+  public getMaxBandwidth(): OpusBandwidth | undefined {
+    return this._settings.maxBandwidth;
+  }
+
+  /**
+   * Whether discontinuous transmission was enabled with `setDTX`, or undefined if the default (disabled) is used.
+   */
+  public getDTX(): boolean | undefined {
+    return this._settings.dtx;
+  }
+
+  /**
+   * The depth set with `setLSBDepth`, or undefined if the default (24) is used.
+   */
+  public getLSBDepth(): number | undefined {
+    return this._settings.lsbDepth;
+  }
+
+  /**
+   * Whether prediction was disabled with `setPredictionDisabled`, or undefined if the default (enabled) is used.
+   */
+  public getPredictionDisabled(): boolean | undefined {
+    return this._settings.predictionDisabled;
+  }
+
+  /**
+   * The number of channels set with `setForceChannels`, or undefined if the default (`auto`) is used.
+   */
+  public getForceChannels(): 'auto' | 1 | 2 | undefined {
+    return this._settings.forceChannels;
   }
 
   public async _transform(chunk: Buffer, encoding: BufferEncoding, done: TransformCallback): Promise<void> {
@@ -132,6 +547,7 @@ export class Encoder extends OpusStream {
 
     while (this.buffer.length >= this.required * (n + 1)) {
       const buffer = this._encode(this.buffer.slice(n * this.required, ++n * this.required));
+      this.encoded = true;
 
       this.push(buffer);
     }
@@ -143,6 +559,27 @@ export class Encoder extends OpusStream {
     return done();
   }
 
+  public _final(callback: (error?: Error | null) => void): void {
+    const frameLength = this.channels * 2;
+    const remaining = Math.ceil((this.buffer?.length ?? 0) / frameLength);
+
+    if (this.buffer && remaining > 0) {
+      if (this.partialFrame === 'error') {
+        return super._final(() => callback(new Error(`The stream ended with a partial frame of ${remaining} samples`)));
+      }
+      if (this.partialFrame === 'pad') {
+        const frame = Buffer.alloc(this.required);
+        this.buffer.copy(frame);
+        this.push(this._encode(frame));
+        // Opus rates divide 48000, so the padding is a whole number of 48 kHz samples
+        this.padding = ((this.frameSize - remaining) * 48000) / this.rate;
+      }
+    }
+    this.emit('padding', this.padding);
+
+    super._final(callback);
+  }
+
   public _destroy(error: Error | null, callback: (error: Error | null) => void): void {
     super._destroy(error, callback);
 
@@ -150,47 +587,241 @@ export class Encoder extends OpusStream {
   }
 }
 
+interface DecoderOptions extends OpusStreamOptions {
+  /**
+   * whether to error out when the number of channels of the OpusHead packet differs from `channels`, instead of
+   * letting libopus downmix or upmix the audio (defaults to false)
+   */
+  strictChannels?: boolean;
+}
+
 /**
  * An Opus decoder stream.
  *
  * Note that any stream you pipe into this must be in
- * [object mode](https://nodejs.org/api/stream.html#stream_object_mode) and should output Opus packets.
+ * [object mode](https://nodejs.org/api/stream.html#stream_object_mode) and should output Opus packets, or
+ * `DemuxedPacket` objects (see the `metadata` option of the demuxers).
+ *
+ * Lost packets can be signalled by writing an empty buffer (or a `DemuxedPacket` with empty data, whose duration is
+ * that of the lost audio), which is replaced by audio extrapolated from the previous packets. The in-band forward
+ * error correction data of the next packet (see `setFEC`) isn't used, as the Opus bindings can't decode it.
+ *
+ * The OpusHead packet is read from the `head` event of the demuxer piped into the decoder, in order with the packets
+ * so that each link of a chained Ogg stream is decoded with its own, or can be written to the decoder before the
+ * audio when other streams are piped in between. Its channel mapping is used to decode multistream
+ * audio, its output gain is applied and its pre-skip is trimmed from the start of the audio. When `DemuxedPacket`
+ * objects are written, the audio before timestamp 0 (the pre-skip) and after the duration of each packet (the padding
+ * at the end of the stream) is trimmed instead, which also works after seeking. OpusTags packets written to the
+ * decoder are emitted as the `tags` event, or as the `invalid` event with the error and the packet if malformed.
  * @example
  * const decoder = new prism.opus.Decoder({ frameSize: 960, channels: 2, rate: 48000 });
- * input.pipe(decoder);
+ * input.pipe(new prism.opus.OggDemuxer({ metadata: true })).pipe(decoder);
  * // decoder will now output PCM audio
  */
 export class Decoder extends OpusStream {
-  public _transform(chunk: Buffer, encoding: BufferEncoding, done: TransformCallback): void {
-    const signature = chunk.slice(0, 8);
+  private readonly strictChannels: boolean;
+  private preSkip = 0;
+  private gain = 1;
+  private lastFrameSize: number;
+  private concealed = 0;
 
-    if (signature.equals(OPUS_HEAD)) {
-      this.emit('format', {
-        channels: this.channels,
-        sampleRate: this.rate,
-        bitDepth: 16,
-        float: false,
-        signed: true,
-        version: chunk.readUInt8(8),
-        preSkip: chunk.readUInt16LE(10),
-        gain: chunk.readUInt16LE(16),
-      });
+  /**
+   * Creates a new Opus decoder stream.
+   * @param options options that you would pass to a regular OpusStream, plus a `strictChannels` option.
+   */
+  public constructor({ strictChannels = false, ...options }: DecoderOptions) {
+    super({ writableObjectMode: true, ...options });
 
-      return done();
-    }
+    this.strictChannels = strictChannels;
+    this.lastFrameSize = this.frameSize;
+    this.on('pipe', (source: Readable) => this._readHeadFrom(source));
+  }
 
-    if (signature.equals(OPUS_TAGS)) {
-      this.emit('tags', chunk);
+  /**
+   * The number of lost packets that have been concealed.
+   */
+  public get concealedFrames(): number {
+    return this.concealed;
+  }
 
-      return done();
-    }
+  public _transform(chunk: Buffer | DemuxedPacket, encoding: BufferEncoding, done: TransformCallback): void {
+    const packet = Buffer.isBuffer(chunk) ? undefined : chunk;
+    const data = packet?.data ?? (chunk as Buffer);
+    const signature = data.slice(0, 8);
 
     try {
-      this.push(this._decode(chunk));
+      if (signature.equals(OPUS_HEAD)) {
+        this._readHead(data);
+      } else if (signature.equals(OPUS_TAGS)) {
+        this._readTags(data);
+      } else {
+        const pcm = data.length === 0 ? this._conceal(packet?.duration) : this._decodePacket(data);
+        if (pcm) {
+          this.push(this._applyGain(this._trim(pcm, packet)));
+        }
+      }
     } catch (e) {
       return done(e);
     }
 
     return done();
   }
+
+  /**
+   * Reads the OpusHead packets emitted by a demuxer piped into the decoder, until it is unpiped. Each OpusHead is
+   * written to the decoder after the packets that the demuxer output before it, which may still be buffered, so that
+   * the header of each link of a chained stream only applies to its own packets.
+   * @param source the piped stream.
+   */
+  private _readHeadFrom(source: Readable): void {
+    // The OpusHead packets waiting for the packets buffered by the source, with the number of packets after which
+    // they are written
+    const heads: { head: Buffer; after: number }[] = [];
+    let packets = 0;
+    const writeHeads = () => {
+      while (heads.length > 0 && heads[0].after <= packets) {
+        this.write(heads[0].head);
+        heads.shift();
+      }
+    };
+    const onHead = (head: Buffer) => {
+      heads.push({ head, after: packets + source.readableLength });
+      writeHeads();
+    };
+    // This listener is added after the one of the pipe, so the packet has already been written to the decoder
+    const onData = () => {
+      packets++;
+      writeHeads();
+    };
+    const onUnpipe = (unpiped: Readable) => {
+      if (unpiped === source) {
+        source.off('head', onHead);
+        source.off('data', onData);
+        this.off('unpipe', onUnpipe);
+      }
+    };
+    source.on('head', onHead);
+    source.on('data', onData);
+    this.on('unpipe', onUnpipe);
+  }
+
+  /**
+   * Reads an OpusHead packet, emitting the format of the stream.
+   * @param head the OpusHead packet.
+   */
+  private _readHead(head: Buffer): void {
+    const channels = head.readUInt8(9);
+    const mapping = readChannelMapping(head);
+    // libopus can only downmix or upmix mono and stereo streams
+    if ((this.strictChannels || mapping.family !== 0) && channels !== this.channels) {
+      throw new Error(`The Opus stream has ${channels} channels, but the decoder outputs ${this.channels} channels`);
+    }
+    if (mapping.family !== 0 && JSON.stringify(mapping) !== JSON.stringify(this._mapping)) {
+      this.encoder = createOpus(this.rate, channels, mapping);
+      this._mapping = mapping;
+    }
+    // The pre-skip is in 48 kHz samples, and the gain in dB as a Q7.8 fixed-point number
+    const preSkip = head.readUInt16LE(10);
+    const gain = head.readInt16LE(16) / 256;
+    this.preSkip = Math.round((preSkip * this.rate) / 48000);
+    this.gain = 10 ** (gain / 20);
+
+    this.emit('format', {
+      channels: this.channels,
+      sampleRate: this.rate,
+      bitDepth: 16,
+      float: false,
+      signed: true,
+      version: head.readUInt8(8),
+      preSkip,
+      gain,
+      mapping,
+    });
+  }
+
+  /**
+   * Decodes a packet, sizing the decoded audio from the duration given by its TOC byte.
+   * @param data the packet.
+   * @throws Will throw an error if the packet is malformed.
+   */
+  private _decodePacket(data: Buffer): Buffer | undefined {
+    const samples = Math.round((getPacketSamples(data) * this.rate) / 48000);
+    const pcm = this._decode(data);
+    this.lastFrameSize = samples;
+    return pcm?.slice(0, samples * this.channels * 2);
+  }
+
+  /**
+   * Emits the Vorbis comment of an OpusTags packet. A malformed packet is reported without failing the stream, as the
+   * audio can still be decoded.
+   * @param data the OpusTags packet.
+   */
+  private _readTags(data: Buffer): void {
+    try {
+      this.emit('tags', parseVorbisComment(data, OPUS_TAGS.length));
+    } catch (error) {
+      this.emit('invalid', error, data);
+    }
+  }
+
+  /**
+   * Conceals a lost packet with the packet loss concealment of libopus, which extrapolates the previous audio.
+   * @param [duration] the duration of the lost packet in milliseconds, which defaults to that of the last packet.
+   */
+  private _conceal(duration?: number): Buffer | undefined {
+    const frameLength = this.channels * 2;
+    const samples = typeof duration !== 'undefined' ? Math.round((duration * this.rate) / 1000) : this.lastFrameSize;
+    const chunks = [];
+    let length = 0;
+    // Decoding an empty packet tells libopus that a packet was lost
+    while (length < samples * frameLength) {
+      const pcm = this._decode(Buffer.alloc(0));
+      if (!pcm?.length) {
+        return undefined;
+      }
+      chunks.push(pcm);
+      length += pcm.length;
+    }
+    this.concealed++;
+
+    return Buffer.concat(chunks).slice(0, samples * frameLength);
+  }
+
+  /**
+   * Trims the decoded audio of a packet, removing the pre-skip and the padding at the end of the stream.
+   * @param pcm the decoded audio.
+   * @param [packet] the packet, if the timestamp and the duration of the packet are known.
+   */
+  private _trim(pcm: Buffer, packet?: DemuxedPacket): Buffer {
+    const frameLength = this.channels * 2;
+    let start = 0;
+    let end = pcm.length;
+
+    if (packet) {
+      start = Math.round((Math.max(0, -packet.timestamp) * this.rate) / 1000) * frameLength;
+      if (typeof packet.duration !== 'undefined') {
+        end = Math.min(end, Math.round((packet.duration * this.rate) / 1000) * frameLength);
+      }
+    } else if (this.preSkip > 0) {
+      const skipped = Math.min(this.preSkip, pcm.length / frameLength);
+      start = skipped * frameLength;
+      this.preSkip -= skipped;
+    }
+
+    return pcm.slice(Math.min(start, end), end);
+  }
+
+  /**
+   * Applies the output gain of the OpusHead packet to decoded audio.
+   * @param pcm the decoded audio.
+   */
+  private _applyGain(pcm: Buffer): Buffer {
+    if (this.gain === 1) {
+      return pcm;
+    }
+    for (let i = 0; i < pcm.length; i += 2) {
+      pcm.writeInt16LE(Math.min(32767, Math.max(-32768, Math.round(pcm.readInt16LE(i) * this.gain))), i);
+    }
+    return pcm;
+  }
 }
@@ -0,0 +1,165 @@
+const OPUS_HEAD = Buffer.from('OpusHead');
+
+/**
+ * The fields of an OpusHead header packet (RFC 7845, section 5.1).
+ */
+export interface OpusHead {
+  /**
+   * the number of output channels
+   */
+  channels: number;
+  /**
+   * the sampling rate in Hz of the original input, for information only
+   */
+  rate: number;
+  /**
+   * the number of samples (at 48 kHz) to discard from the decoder output when starting playback
+   */
+  preSkip: number;
+  /**
+   * the gain in dB to apply to the decoder output
+   */
+  gain: number;
+  /**
+   * the channel mapping of the stream (defaults to the standard mapping of the number of channels)
+   */
+  mapping?: ChannelMapping;
+}
+
+/**
+ * The channel mapping of an Opus stream, which describes how the output channels are coded in the elementary
+ * (mono or stereo) streams of a multistream packet (RFC 7845, section 5.1.1).
+ */
+export interface ChannelMapping {
+  /**
+   * the channel mapping family: 0 for mono and stereo, 1 for surround sound up to 7.1 (in the Vorbis channel order),
+   * 2 for ambisonics and 255 for unidentified channels
+   */
+  family: number;
+  /**
+   * the number of elementary streams in each packet
+   */
+  streams: number;
+  /**
+   * the number of elementary streams that are stereo (they come first)
+   */
+  coupledStreams: number;
+  /**
+   * the index of the decoded channel of each output channel, where the channels of coupled streams come first
+   * (2 per stream), followed by those of mono streams, and 255 is silence
+   */
+  mapping: number[];
+}
+
+// The stream counts and the mappings of the family 1 (Vorbis order), by number of channels (RFC 7845, section 5.1.1.2)
+const VORBIS_MAPPINGS: [number, number, number[]][] = [
+  [1, 0, [0]],
+  [1, 1, [0, 1]],
+  [2, 1, [0, 2, 1]],
+  [2, 2, [0, 1, 2, 3]],
+  [3, 2, [0, 4, 1, 2, 3]],
+  [4, 2, [0, 4, 1, 2, 3, 5]],
+  [4, 3, [0, 4, 1, 2, 3, 5, 6]],
+  [5, 3, [0, 6, 1, 2, 3, 4, 5, 7]],
+];
+
+/**
+ * Gets the standard channel mapping of a number of channels.
+ * @param channels the number of channels.
+ * @param [family] the channel mapping family (defaults to 0 for mono and stereo, 1 for up to 8 channels and 255
+ * otherwise).
+ * @throws Will throw an error if the family doesn't support this number of channels.
+ */
+export function defaultChannelMapping(
+  channels: number,
+  family = channels <= 2 ? 0 : channels <= 8 ? 1 : 255,
+): ChannelMapping {
+  if (family === 0 || family === 1) {
+    if (channels < 1 || channels > (family === 0 ? 2 : 8)) {
+      throw new Error(`Opus channel mapping family ${family} doesn't support ${channels} channels`);
+    }
+    const [streams, coupledStreams, mapping] = VORBIS_MAPPINGS[channels - 1];
+    return { family, streams, coupledStreams, mapping };
+  } else if (family === 2) {
+    // (order + 1)^2 ambisonic channels, optionally followed by a stereo pair of non-diegetic channels
+    const order = Math.floor(Math.sqrt(channels)) - 1;
+    const ambisonicChannels = (order + 1) ** 2;
+    const nonDiegetic = channels - ambisonicChannels;
+    if (order < 0 || order > 14 || (nonDiegetic !== 0 && nonDiegetic !== 2)) {
+      throw new Error(`Opus channel mapping family 2 doesn't support ${channels} channels`);
+    }
+    const coupledStreams = nonDiegetic / 2;
+    return {
+      family,
+      streams: ambisonicChannels + coupledStreams,
+      coupledStreams,
+      mapping: [
+        ...Array.from({ length: ambisonicChannels }, (_, i) => i + coupledStreams * 2),
+        ...(nonDiegetic ? [0, 1] : []),
+      ],
+    };
+  } else if (channels < 1 || channels > 255) {
+    throw new Error(`Opus channel mapping family ${family} doesn't support ${channels} channels`);
+  }
+  return { family, streams: channels, coupledStreams: 0, mapping: Array.from({ length: channels }, (_, i) => i) };
+}
+
+/**
+ * Reads the channel mapping of an OpusHead header packet.
+ * @param head the OpusHead header packet.
+ * @throws Will throw an error if the header is truncated or its channel mapping is invalid.
+ */
+export function readChannelMapping(head: Buffer): ChannelMapping {
+  const channels = head.readUInt8(9);
+  const family = head.readUInt8(18);
+  if (family === 0) {
+    return defaultChannelMapping(channels, 0);
+  }
+  if (head.length < 21 + channels) {
+    throw new Error('Invalid OpusHead: the channel mapping table is truncated');
+  }
+
+  const streams = head.readUInt8(19);
+  const coupledStreams = head.readUInt8(20);
+  const mapping = [...head.slice(21, 21 + channels)];
+  if (
+    streams < 1 ||
+    coupledStreams > streams ||
+    mapping.some((index) => index !== 255 && index >= streams + coupledStreams)
+  ) {
+    throw new Error('Invalid OpusHead: the channel mapping table is invalid');
+  }
+  return { family, streams, coupledStreams, mapping };
+}
+
+/**
+ * Creates an OpusHead header packet.
+ * @param head the fields of the header.
+ * @throws Will throw an error if the channel mapping doesn't match the number of channels.
+ */
+export function createOpusHead({
+  channels,
+  rate,
+  preSkip,
+  gain,
+  mapping = defaultChannelMapping(channels),
+}: OpusHead): Buffer {
+  if (mapping.mapping.length !== channels) {
+    throw new Error('The channel mapping of an OpusHead must have an entry for each channel');
+  }
+
+  const head = Buffer.alloc(mapping.family === 0 ? 19 : 21 + channels);
+  OPUS_HEAD.copy(head, 0);
+  head.writeUInt8(1, 8);
+  head.writeUInt8(channels, 9);
+  head.writeUInt16LE(preSkip, 10);
+  head.writeUInt32LE(rate, 12);
+  head.writeInt16LE(Math.round(gain * 256), 16);
+  head.writeUInt8(mapping.family, 18);
+  if (mapping.family !== 0) {
+    head.writeUInt8(mapping.streams, 19);
+    head.writeUInt8(mapping.coupledStreams, 20);
+    Buffer.from(mapping.mapping).copy(head, 21);
+  }
+  return head;
+}
@@ -0,0 +1,260 @@
+import { getPacketSamples } from '../core/OpusToc';
+
+/**
+ * An audio bandwidth, from `narrowband` (4 kHz) to `fullband` (20 kHz).
+ */
+export type OpusBandwidth = 'narrowband' | 'mediumband' | 'wideband' | 'superwideband' | 'fullband';
+
+// Bandwidths, by mode (RFC 6716, section 3.1)
+const SILK_BANDWIDTHS: OpusBandwidth[] = ['narrowband', 'mediumband', 'wideband'];
+const HYBRID_BANDWIDTHS: OpusBandwidth[] = ['superwideband', 'fullband'];
+const CELT_BANDWIDTHS: OpusBandwidth[] = ['narrowband', 'wideband', 'superwideband', 'fullband'];
+
+/**
+ * The information given by the TOC byte and the framing of an Opus packet.
+ */
+export interface OpusPacketInfo {
+  /**
+   * the configuration number of the TOC byte (0 to 31), which gives the mode, the bandwidth and the frame duration
+   */
+  config: number;
+  /**
+   * the coding mode: `silk` (linear prediction, for speech), `celt` (MDCT, for music) or `hybrid` (both)
+   */
+  mode: 'silk' | 'hybrid' | 'celt';
+  /**
+   * the audio bandwidth
+   */
+  bandwidth: OpusBandwidth;
+  /**
+   * whether the frames are coded in stereo
+   */
+  stereo: boolean;
+  /**
+   * the framing code of the TOC byte: 0 for a single frame, 1 for 2 frames of equal sizes, 2 for 2 frames of
+   * different sizes, 3 for an arbitrary number of frames
+   */
+  code: number;
+  /**
+   * the number of frames
+   */
+  frames: number;
+  /**
+   * the duration of each frame in milliseconds
+   */
+  frameDuration: number;
+  /**
+   * the number of samples (at 48 kHz) in the packet
+   */
+  samples: number;
+  /**
+   * the duration of the packet in milliseconds
+   */
+  duration: number;
+  /**
+   * the number of padding bytes
+   */
+  padding: number;
+}
+
+/**
+ * Parses the TOC byte and the framing of an Opus packet (RFC 6716, section 3), without decoding it.
+ * @param packet the Opus packet.
+ * @throws Will throw an error if the packet is malformed.
+ */
+export function parsePacket(packet: Buffer): OpusPacketInfo {
+  const { padding } = readFraming(packet);
+  const frames = getPacketFrames(packet).length;
+  const toc = packet[0];
+  const config = toc >> 3;
+  const samples = getPacketSamples(packet);
+  // A packet can't contain more than 120 ms of audio
+  if (samples > 5760) {
+    throw new Error('Invalid Opus packet: packet is longer than 120 ms');
+  }
+
+  let mode: OpusPacketInfo['mode'];
+  let bandwidth: OpusBandwidth;
+  if (config < 12) {
+    mode = 'silk';
+    bandwidth = SILK_BANDWIDTHS[config >> 2];
+  } else if (config < 16) {
+    mode = 'hybrid';
+    bandwidth = HYBRID_BANDWIDTHS[(config - 12) >> 1];
+  } else {
+    mode = 'celt';
+    bandwidth = CELT_BANDWIDTHS[(config - 16) >> 2];
+  }
+
+  return {
+    config,
+    mode,
+    bandwidth,
+    stereo: !!(toc & 0x4),
+    code: toc & 0x3,
+    frames,
+    frameDuration: samples / frames / 48,
+    samples,
+    duration: samples / 48,
+    padding,
+  };
+}
+
+/**
+ * Reads a frame length of an Opus packet, coded on 1 or 2 bytes.
+ * @param packet the Opus packet.
+ * @param offset the offset of the frame length.
+ * @returns the frame length and the number of bytes it is coded on.
+ * @throws Will throw an error if the packet is truncated.
+ */
+function readFrameLength(packet: Buffer, offset: number): [number, number] {
+  if (offset >= packet.length) {
+    throw new Error('Invalid Opus packet: missing frame length');
+  }
+  if (packet[offset] < 252) {
+    return [packet[offset], 1];
+  }
+  if (offset + 1 >= packet.length) {
+    throw new Error('Invalid Opus packet: missing frame length');
+  }
+  return [packet[offset] + packet[offset + 1] * 4, 2];
+}
+
+function encodeFrameLength(length: number): Buffer {
+  if (length < 252) {
+    return Buffer.from([length]);
+  }
+  const first = 252 + (length & 0x3);
+  return Buffer.from([first, (length - first) >> 2]);
+}
+
+/**
+ * Reads the framing of an Opus packet, up to where self-delimited packets have an extra frame length.
+ * @param packet the Opus packet.
+ * @returns the offset of the extra frame length, the number of frames, the lengths of the frames that precede the
+ * last one (when they have different sizes) and their total, the length of the padding and whether the frames have
+ * equal sizes.
+ */
+function readFraming(
+  packet: Buffer,
+): { offset: number; frames: number; sizes: number[]; lengths: number; padding: number; cbr: boolean } {
+  if (packet.length < 1) {
+    throw new Error('Invalid Opus packet: packet is empty');
+  }
+
+  switch (packet[0] & 0x3) {
+    case 0:
+      return { offset: 1, frames: 1, sizes: [], lengths: 0, padding: 0, cbr: true };
+    case 1:
+      return { offset: 1, frames: 2, sizes: [], lengths: 0, padding: 0, cbr: true };
+    case 2: {
+      const [length, size] = readFrameLength(packet, 1);
+      return { offset: 1 + size, frames: 2, sizes: [length], lengths: length, padding: 0, cbr: false };
+    }
+  }
+
+  if (packet.length < 2) {
+    throw new Error('Invalid Opus packet: missing frame count byte');
+  }
+  const frames = packet[1] & 0x3f;
+  const cbr = !(packet[1] & 0x80);
+  let offset = 2;
+  let padding = 0;
+  if (packet[1] & 0x40) {
+    let value;
+    do {
+      if (offset >= packet.length) {
+        throw new Error('Invalid Opus packet: missing padding length');
+      }
+      value = packet[offset++];
+      padding += value === 255 ? 254 : value;
+    } while (value === 255);
+  }
+
+  const sizes = [];
+  if (!cbr) {
+    for (let i = 0; i < frames - 1; i++) {
+      const [length, size] = readFrameLength(packet, offset);
+      sizes.push(length);
+      offset += size;
+    }
+  }
+  return { offset, frames, sizes, lengths: sizes.reduce((total, length) => total + length, 0), padding, cbr };
+}
+
+/**
+ * Splits an Opus packet into its frames.
+ * @param packet the Opus packet.
+ * @throws Will throw an error if the packet is malformed.
+ */
+export function getPacketFrames(packet: Buffer): Buffer[] {
+  const { offset, frames, sizes, lengths, padding, cbr } = readFraming(packet);
+  const remaining = packet.length - offset - padding;
+  if (frames === 0 || remaining < lengths || (cbr && remaining % frames !== 0)) {
+    throw new Error('Invalid Opus packet: invalid frame lengths');
+  }
+
+  const frameSizes = cbr ? Array(frames).fill(remaining / frames) : [...sizes, remaining - lengths];
+  let start = offset;
+  return frameSizes.map((size) => packet.slice(start, (start += size)));
+}
+
+/**
+ * Creates an Opus packet from frames, using the most compact framing.
+ * @param toc the TOC byte of the frames (its framing code is ignored).
+ * @param frames the frames, which must all have the configuration and the number of channels of the TOC byte.
+ * @throws Will throw an error if there are too many frames.
+ */
+export function createPacket(toc: number, frames: Buffer[]): Buffer {
+  const config = toc & 0xfc;
+  const cbr = frames.every((frame) => frame.length === frames[0].length);
+
+  if (frames.length === 0 || frames.length > 48) {
+    throw new Error('An Opus packet must contain between 1 and 48 frames');
+  } else if (frames.length === 1) {
+    return Buffer.concat([Buffer.from([config]), frames[0]]);
+  } else if (frames.length === 2) {
+    return cbr
+      ? Buffer.concat([Buffer.from([config | 1]), ...frames])
+      : Buffer.concat([Buffer.from([config | 2]), encodeFrameLength(frames[0].length), ...frames]);
+  }
+
+  const lengths = cbr ? [] : frames.slice(0, -1).map((frame) => encodeFrameLength(frame.length));
+  return Buffer.concat([Buffer.from([config | 3, (cbr ? 0 : 0x80) | frames.length]), ...lengths, ...frames]);
+}
+
+/**
+ * Converts an Opus packet to the self-delimiting framing (RFC 6716, appendix B), which is used for all the elementary
+ * streams of a multistream packet but the last one.
+ * @param packet the Opus packet.
+ * @throws Will throw an error if the packet is malformed.
+ */
+export function toSelfDelimited(packet: Buffer): Buffer {
+  const { offset, frames, lengths, padding, cbr } = readFraming(packet);
+  const remaining = packet.length - offset - padding;
+  // Packets with frames of equal sizes code the size of each frame, the others code the size of the last frame
+  const length = cbr ? remaining / frames : remaining - lengths;
+  if (length < 0 || !Number.isInteger(length)) {
+    throw new Error('Invalid Opus packet: invalid frame lengths');
+  }
+  return Buffer.concat([packet.slice(0, offset), encodeFrameLength(length), packet.slice(offset)]);
+}
+
+/**
+ * Reads a self-delimited Opus packet at the start of a buffer, converting it to the regular framing.
+ * @param buffer the buffer that starts with a self-delimited Opus packet.
+ * @returns the Opus packet, and the number of bytes used by the self-delimited packet.
+ * @throws Will throw an error if the packet is malformed.
+ */
+export function fromSelfDelimited(buffer: Buffer): { packet: Buffer; length: number } {
+  const { offset, frames, lengths, padding, cbr } = readFraming(buffer);
+  const [length, size] = readFrameLength(buffer, offset);
+  const end = offset + size + (cbr ? length * frames : lengths + length) + padding;
+  if (end > buffer.length) {
+    throw new Error('Invalid Opus packet: truncated self-delimited packet');
+  }
+  return {
+    packet: Buffer.concat([buffer.slice(0, offset), buffer.slice(offset + size, end)]),
+    length: end,
+  };
+}
@@ -0,0 +1,113 @@
+import { Transform, TransformCallback, TransformOptions } from 'stream';
+import { DemuxedPacket } from '../core/DemuxedPacket';
+import { OpusBandwidth, OpusPacketInfo, parsePacket } from './Packet';
+
+const OPUS_HEAD = Buffer.from('OpusHead');
+const OPUS_TAGS = Buffer.from('OpusTags');
+
+/**
+ * The statistics of the packets that went through a `PacketInspector`.
+ */
+export interface PacketStatistics {
+  /**
+   * the number of valid packets
+   */
+  packets: number;
+  /**
+   * the number of malformed packets, which aren't counted in the other statistics
+   */
+  invalidPackets: number;
+  /**
+   * the total size of the valid packets in bytes
+   */
+  bytes: number;
+  /**
+   * the total duration of the valid packets in milliseconds
+   */
+  duration: number;
+  /**
+   * the average bitrate in bits per second
+   */
+  bitrate: number;
+  /**
+   * the number of packets of each coding mode
+   */
+  modes: Record<OpusPacketInfo['mode'], number>;
+  /**
+   * the number of packets of each bandwidth
+   */
+  bandwidths: Record<OpusBandwidth, number>;
+}
+
+/**
+ * Inspects a stream of Opus packets (or `DemuxedPacket` objects) without decoding them, outputting them unchanged.
+ *
+ * The `packet` event is emitted with the `OpusPacketInfo` and the data of each packet, and the `invalid` event with
+ * the error and the data of each malformed packet. Running statistics are available as `statistics`. The header
+ * packets (OpusHead and OpusTags) are passed through without being inspected.
+ * @example
+ * const inspector = new prism.opus.PacketInspector();
+ * inspector.on('packet', (info, packet) => console.log(info.duration, packet.length));
+ * input.pipe(new prism.opus.OggDemuxer()).pipe(inspector).pipe(new prism.opus.Decoder(options));
+ */
+export class PacketInspector extends Transform {
+  private readonly _statistics: PacketStatistics = {
+    packets: 0,
+    invalidPackets: 0,
+    bytes: 0,
+    duration: 0,
+    bitrate: 0,
+    modes: { silk: 0, hybrid: 0, celt: 0 },
+    bandwidths: { narrowband: 0, mediumband: 0, wideband: 0, superwideband: 0, fullband: 0 },
+  };
+
+  /**
+   * Creates a new packet inspector.
+   * @param [options] options that you would pass to a regular Transform stream.
+   */
+  public constructor(options: TransformOptions = {}) {
+    super({ readableObjectMode: true, writableObjectMode: true, ...options });
+  }
+
+  /**
+   * The statistics of the packets inspected so far.
+   */
+  public get statistics(): PacketStatistics {
+    return this._statistics;
+  }
+
+  public _transform(chunk: Buffer | DemuxedPacket, encoding: BufferEncoding, done: TransformCallback): void {
+    const data = Buffer.isBuffer(chunk) ? chunk : chunk.data;
+    const signature = data.slice(0, 8);
+
+    if (data.length > 0 && !signature.equals(OPUS_HEAD) && !signature.equals(OPUS_TAGS)) {
+      this._inspect(data);
+    }
+
+    return done(null, chunk);
+  }
+
+  /**
+   * Parses a packet, updating the statistics.
+   * @param packet the Opus packet.
+   */
+  private _inspect(packet: Buffer): void {
+    let info: OpusPacketInfo;
+    try {
+      info = parsePacket(packet);
+    } catch (error) {
+      this._statistics.invalidPackets++;
+      this.emit('invalid', error, packet);
+      return;
+    }
+
+    const statistics = this._statistics;
+    statistics.packets++;
+    statistics.bytes += packet.length;
+    statistics.duration += info.duration;
+    statistics.bitrate = (statistics.bytes * 8 * 1000) / statistics.duration;
+    statistics.modes[info.mode]++;
+    statistics.bandwidths[info.bandwidth]++;
+    this.emit('packet', info, packet);
+  }
+}
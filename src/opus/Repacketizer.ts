@@ -0,0 +1,124 @@
+import { Transform, TransformCallback, TransformOptions } from 'stream';
+import { DemuxedPacket } from '../core/DemuxedPacket';
+import { getPacketSamples } from '../core/OpusToc';
+import { createPacket, getPacketFrames } from './Packet';
+
+const OPUS_HEAD = Buffer.from('OpusHead');
+const OPUS_TAGS = Buffer.from('OpusTags');
+
+interface RepacketizerOptions extends TransformOptions {
+  /**
+   * the maximum duration of the output packets in milliseconds, up to 120: consecutive frames are merged as long as
+   * they fit in it (defaults to 0, which outputs a packet for each frame)
+   */
+  packetDuration?: number;
+}
+
+/**
+ * Frames waiting to be merged into a packet.
+ */
+interface PendingPacket {
+  toc: number;
+  frames: Buffer[];
+  samples: number;
+  packet?: DemuxedPacket;
+  timestamp: number;
+  duration?: number;
+}
+
+/**
+ * Repacketizes a stream of Opus packets (or `DemuxedPacket` objects) without decoding them, splitting the packets
+ * into their frames and merging consecutive frames up to `packetDuration`.
+ *
+ * Only frames with the same configuration (mode, bandwidth and frame duration) and number of channels can be merged,
+ * and frames can't be split: a packet with a single 60 ms frame stays a 60 ms packet. The header packets (OpusHead
+ * and OpusTags) and lost packets (empty buffers) are passed through. When `DemuxedPacket` objects are written, the
+ * timestamps and durations of the output packets are those of their frames.
+ * @example
+ * // Single-frame packets
+ * input.pipe(new prism.opus.WebmDemuxer()).pipe(new prism.opus.Repacketizer());
+ * // Packets of up to 60 ms
+ * encoder.pipe(new prism.opus.Repacketizer({ packetDuration: 60 })).pipe(new prism.opus.OggMuxer());
+ */
+export class Repacketizer extends Transform {
+  private readonly maxSamples: number;
+  private pending?: PendingPacket;
+
+  /**
+   * Creates a new repacketizer.
+   * @param [options] options that you would pass to a regular Transform stream, plus a `packetDuration` option.
+   * @throws Will throw an error if the packet duration is out of range.
+   */
+  public constructor({ packetDuration = 0, ...options }: RepacketizerOptions = {}) {
+    super({ readableObjectMode: true, writableObjectMode: true, ...options });
+
+    if (!(packetDuration >= 0 && packetDuration <= 120)) {
+      throw new RangeError(`The packet duration must be between 0 and 120 ms, got ${packetDuration}`);
+    }
+    this.maxSamples = packetDuration * 48;
+  }
+
+  public _transform(chunk: Buffer | DemuxedPacket, encoding: BufferEncoding, done: TransformCallback): void {
+    const packet = Buffer.isBuffer(chunk) ? undefined : chunk;
+    const data = packet?.data ?? (chunk as Buffer);
+    const signature = data.slice(0, 8);
+
+    if (data.length === 0 || signature.equals(OPUS_HEAD) || signature.equals(OPUS_TAGS)) {
+      this._pushPending();
+      return done(null, chunk);
+    }
+
+    try {
+      const frames = getPacketFrames(data);
+      const frameSamples = getPacketSamples(data) / frames.length;
+      const toc = data[0] & 0xfc;
+
+      for (const [i, frame] of frames.entries()) {
+        if (this.pending && (this.pending.toc !== toc || this.pending.samples + frameSamples > this.maxSamples)) {
+          this._pushPending();
+        }
+        const pending = (this.pending ??= {
+          toc,
+          frames: [],
+          samples: 0,
+          packet,
+          timestamp: (packet?.timestamp ?? 0) + (i * frameSamples) / 48,
+          duration: typeof packet?.duration === 'undefined' ? undefined : 0,
+        });
+        pending.frames.push(frame);
+        pending.samples += frameSamples;
+        if (typeof packet?.duration !== 'undefined' && typeof pending.duration !== 'undefined') {
+          // The duration of the last packet may be shorter than its frames, which are trimmed by decoders
+          pending.duration += Math.min(frameSamples / 48, Math.max(0, packet.duration - (i * frameSamples) / 48));
+        }
+        // Push the packet as soon as another frame of the same duration can't fit in it
+        if (pending.samples + frameSamples > this.maxSamples) {
+          this._pushPending();
+        }
+      }
+    } catch (error) {
+      return done(error);
+    }
+
+    return done();
+  }
+
+  public _flush(done: TransformCallback): void {
+    this._pushPending();
+    done();
+  }
+
+  /**
+   * Pushes the pending frames as a packet.
+   */
+  private _pushPending(): void {
+    if (!this.pending) {
+      return;
+    }
+    const { toc, frames, packet, timestamp, duration } = this.pending;
+    this.pending = undefined;
+
+    const data = createPacket(toc, frames);
+    this.push(packet ? { ...packet, data, timestamp, duration } : data);
+  }
+}
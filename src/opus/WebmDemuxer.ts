@@ -1,9 +1,13 @@
+import { getOpusPacketDuration } from '../core/OpusToc';
 import { WebmBaseDemuxer } from '../core/WebmBase';
 
 const OPUS_HEAD = Buffer.from('OpusHead');
 
 /**
  * Demuxes a Webm stream (containing Opus audio) to output an Opus stream.
+ *
+ * The OpusHead packet (the CodecPrivate of the track) is emitted as the `head` event, which `opus.Decoder` reads when
+ * the demuxer is piped into it.
  * @example
  * const fs = require('fs');
  * const file = fs.createReadStream('./audio.webm');
@@ -16,5 +20,10 @@ export class WebmDemuxer extends WebmBaseDemuxer {
     if (!data.slice(0, 8).equals(OPUS_HEAD)) {
       throw Error('Audio codec is not Opus!');
     }
+    this.emit('head', data);
+  }
+
+  protected _packetDuration(packet: Buffer): number | undefined {
+    return getOpusPacketDuration(packet);
   }
 }
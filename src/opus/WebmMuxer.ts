@@ -0,0 +1,100 @@
+import { TransformCallback } from 'stream';
+import { getPacketSamples } from '../core/OpusToc';
+import { WebmBaseMuxer, WebmBaseMuxerOptions, WebmMuxerTrack } from '../core/WebmBase';
+import { ChannelMapping, createOpusHead } from './OpusHead';
+
+const OPUS_HEAD = Buffer.from('OpusHead');
+const OPUS_TAGS = Buffer.from('OpusTags');
+
+// The recommended seek pre-roll for Opus, in nanoseconds
+const SEEK_PRE_ROLL = 80e6;
+
+interface WebmMuxerOptions extends WebmBaseMuxerOptions {
+  /**
+   * the number of channels of the Opus stream (defaults to 2)
+   */
+  channels?: number;
+  /**
+   * the channel mapping of the Opus stream, e.g. the `mapping` of the encoder (defaults to the standard mapping of
+   * the number of channels)
+   */
+  mapping?: ChannelMapping;
+  /**
+   * the sampling rate in Hz of the original input, for information only (defaults to 48000)
+   */
+  rate?: number;
+  /**
+   * the number of samples (at 48 kHz) to discard from the decoder output when starting playback (defaults to 312,
+   * the look-ahead of libopus)
+   */
+  preSkip?: number;
+}
+
+/**
+ * Muxes a stream of Opus packets to output a WebM stream.
+ *
+ * Note that any stream you pipe into this must be in
+ * [object mode](https://nodejs.org/api/stream.html#stream_object_mode) and should output Opus packets.
+ * @example
+ * const fs = require('fs');
+ * const encoder = new prism.opus.Encoder({ frameSize: 960, channels: 2, rate: 48000 });
+ * pcmAudio
+ *   .pipe(encoder)
+ *   .pipe(new prism.opus.WebmMuxer({ channels: 2, tags: { TITLE: 'Recording' } }))
+ *   .pipe(fs.createWriteStream('./audio.webm'));
+ * @example
+ * // When writing to a file, Cues and the duration can be added once the stream is finished
+ * const muxer = new prism.opus.WebmMuxer({ channels: 2, cues: true });
+ * const output = fs.createWriteStream('./audio.webm');
+ * let header;
+ * muxer.on('header', (data, offset) => (header = { data, offset }));
+ * output.on('finish', () => {
+ *   const fd = fs.openSync('./audio.webm', 'r+');
+ *   fs.writeSync(fd, header.data, 0, header.data.length, header.offset);
+ *   fs.closeSync(fd);
+ * });
+ * opusPackets.pipe(muxer).pipe(output);
+ */
+export class WebmMuxer extends WebmBaseMuxer {
+  private readonly channels: number;
+  private readonly head: Buffer;
+  private readonly preSkip: number;
+
+  /**
+   * Creates a new WebmOpus muxer.
+   * @param [options] options that you would pass to a regular Transform stream, plus a few more.
+   */
+  public constructor({ channels = 2, mapping, rate = 48000, preSkip = 312, ...options }: WebmMuxerOptions = {}) {
+    super(options);
+
+    // The output gain should be zero in WebM (https://www.matroska.org/technical/codec_specs.html)
+    this.head = createOpusHead({ channels, rate, preSkip, gain: 0, mapping });
+    this.channels = channels;
+    this.preSkip = preSkip;
+  }
+
+  public _transform(chunk: Buffer, encoding: BufferEncoding, done: TransformCallback): void {
+    // Header packets are stored in the track description, so any found in the input are discarded
+    const signature = chunk.slice(0, 8);
+    if (signature.equals(OPUS_HEAD) || signature.equals(OPUS_TAGS)) {
+      return done();
+    }
+
+    return super._transform(chunk, encoding, done);
+  }
+
+  protected _track(): WebmMuxerTrack {
+    return {
+      codecId: 'A_OPUS',
+      codecPrivate: this.head,
+      codecDelay: Math.round((this.preSkip * 1e9) / 48000),
+      seekPreRoll: SEEK_PRE_ROLL,
+      samplingFrequency: 48000,
+      channels: this.channels,
+    };
+  }
+
+  protected _packetDuration(packet: Buffer): number {
+    return getPacketSamples(packet);
+  }
+}
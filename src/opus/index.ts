@@ -3,4 +3,12 @@
  */
 export * from './Opus';
 export * from './OggDemuxer';
+export * from './OggMuxer';
 export * from './WebmDemuxer';
+export * from './WebmMuxer';
+export * from './PacketInspector';
+export * from './Repacketizer';
+export { defaultChannelMapping } from './OpusHead';
+export type { ChannelMapping } from './OpusHead';
+export { parsePacket } from './Packet';
+export type { OpusBandwidth, OpusPacketInfo } from './Packet';
@@ -0,0 +1,46 @@
+import { OggBaseDemuxer, OggBitstream, OggPacket } from '../core/OggBase';
+import { parseVorbisComment } from '../core/VorbisComment';
+
+const VORBIS_HEAD = Buffer.from('vorbis');
+
+/**
+ * Demuxes an Ogg stream (containing Vorbis audio) to output a Vorbis stream.
+ *
+ * The three header packets (identification, comment and setup) are output before the audio packets, and are
+ * also emitted as the `head`, `tags` (with the parsed `VorbisComment`) and `setup` events. A malformed comment header
+ * doesn't stop the stream: the `invalid` event is emitted with the error and the packet instead of `tags`.
+ * @example
+ * const fs = require('fs');
+ * const file = fs.createReadStream('./audio.ogg');
+ * const demuxer = new prism.vorbis.OggDemuxer();
+ * const vorbis = file.pipe(demuxer);
+ * // vorbis is now a ReadableStream in object mode outputting Vorbis packets
+ */
+export class OggDemuxer extends OggBaseDemuxer {
+  protected _selectBitstream({ codec }: OggBitstream): boolean {
+    return codec === 'vorbis' && this.selected.size === 0;
+  }
+
+  protected _readPacket(packet: OggPacket): void {
+    const { data } = packet;
+    if (data.slice(1, 7).equals(VORBIS_HEAD)) {
+      switch (data[0]) {
+        case 1:
+          this.emit('head', data);
+          break;
+        case 3:
+          // The comment header starts with its type and the signature
+          try {
+            this.emit('tags', parseVorbisComment(data, 1 + VORBIS_HEAD.length));
+          } catch (error) {
+            this.emit('invalid', error, data);
+          }
+          break;
+        case 5:
+          this.emit('setup', data);
+          break;
+      }
+    }
+    this._pushPacket(packet);
+  }
+}
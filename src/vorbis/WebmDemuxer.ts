@@ -11,8 +11,8 @@ export class WebmDemuxer extends WebmBaseDemuxer {
       throw Error('Audio codec is not Vorbis!');
     }
 
-    this.push(data.slice(3, 3 + data.readUInt8(1)));
-    this.push(data.slice(3 + data.readUInt8(1), 3 + data.readUInt8(1) + data.readUInt8(2)));
-    this.push(data.slice(3 + data.readUInt8(1) + data.readUInt8(2)));
+    this._pushPacket(data.slice(3, 3 + data.readUInt8(1)));
+    this._pushPacket(data.slice(3 + data.readUInt8(1), 3 + data.readUInt8(1) + data.readUInt8(2)));
+    this._pushPacket(data.slice(3 + data.readUInt8(1) + data.readUInt8(2)));
   }
 }
@@ -2,4 +2,5 @@
  * Vorbis features
  */
 
+export * from './OggDemuxer';
 export * from './WebmDemuxer';
@@ -0,0 +1,99 @@
+import { Readable } from 'stream';
+import { Loudness, LoudnessMeter, PCM_FORMATS } from '../src';
+import { streamToBuffer } from './util';
+
+// Generates a stereo f32le sine wave
+function sine(frequency: number, amplitude: number, seconds: number, phase = 0, rate = 48000): Buffer {
+  const format = PCM_FORMATS.f32le;
+  const buffer = Buffer.alloc(seconds * rate * 2 * format.bytes);
+  for (let i = 0; i < seconds * rate; i++) {
+    const value = amplitude * Math.sin((2 * Math.PI * frequency * i) / rate + phase);
+    format.write(buffer, value, i * 8);
+    format.write(buffer, value, i * 8 + 4);
+  }
+  return buffer;
+}
+
+test('LoudnessMeter measures a -23 dBFS sine wave as -23 LUFS', async () => {
+  const meter = new LoudnessMeter({ type: 'f32le' });
+  const measurements: Loudness[] = [];
+  meter.on('loudness', (loudness: Loudness) => measurements.push(loudness));
+  const input = sine(1000, 10 ** (-23 / 20), 5);
+  const output = await streamToBuffer(Readable.from([input]).pipe(meter));
+
+  expect(output).toEqual(input);
+  expect(measurements).toHaveLength(50);
+  expect(meter.integrated).toBeCloseTo(-23, 1);
+  expect(meter.momentary).toBeCloseTo(-23, 1);
+  expect(meter.shortTerm).toBeCloseTo(-23, 1);
+  expect(meter.range).toBeLessThan(0.1);
+  expect(Math.abs(meter.truePeak + 23)).toBeLessThan(0.1);
+});
+
+test('LoudnessMeter measures true peaks between samples', async () => {
+  // At a quarter of the sampling rate with a phase of 45°, the samples are 3 dB below the peaks
+  const meter = new LoudnessMeter({ type: 'f32le' });
+  await streamToBuffer(Readable.from([sine(12000, 0.5, 1, Math.PI / 4)]).pipe(meter));
+
+  expect(Math.abs(meter.truePeak - 20 * Math.log10(0.5))).toBeLessThan(0.3);
+});
+
+test('LoudnessMeter gates silence and measures the loudness range', async () => {
+  const meter = new LoudnessMeter({ type: 'f32le' });
+  const input = Buffer.concat([
+    Buffer.alloc(48000 * 8 * 5),
+    sine(1000, 10 ** (-23 / 20), 5),
+    sine(1000, 10 ** (-43 / 20), 5),
+  ]);
+  await streamToBuffer(Readable.from([input]).pipe(meter));
+
+  // The silence is below the absolute gate, and the quieter part is below the relative gate
+  expect(meter.integrated).toBeCloseTo(-23, 0);
+  expect(meter.range).toBeGreaterThan(19);
+  expect(meter.range).toBeLessThan(21);
+});
+
+test('LoudnessMeter normalizes to a target loudness', async () => {
+  const meter = new LoudnessMeter({ type: 's16le', target: -20 });
+  const format = PCM_FORMATS.s16le;
+  const input = Buffer.alloc(48000 * 10 * 4);
+  for (let i = 0; i < 48000 * 10 * 2; i++) {
+    format.write(input, 32768 * 10 ** (-30 / 20) * Math.sin((2 * Math.PI * 1000 * Math.floor(i / 2)) / 48000), i * 2);
+  }
+  const output = await streamToBuffer(Readable.from([input]).pipe(meter));
+
+  const check = new LoudnessMeter({ type: 's16le' });
+  await streamToBuffer(Readable.from([output.slice(-48000 * 3 * 4)]).pipe(check));
+  expect(meter.gainDecibels).toBeCloseTo(10, 1);
+  expect(check.integrated).toBeCloseTo(-20, 1);
+});
+
+test('LoudnessMeter limits the peaks of normalized audio', async () => {
+  // A -20 dBFS sine wave with a -3 dBFS click every 100 ms, which is amplified above full scale
+  const input = sine(1000, 0.1, 5);
+  for (let i = 0; i < 50; i++) {
+    PCM_FORMATS.f32le.write(input, 0.7, i * 4800 * 8);
+  }
+  const normalize = async (limiter: boolean) => {
+    const output = await streamToBuffer(
+      Readable.from([input]).pipe(new LoudnessMeter({ type: 'f32le', target: -10, limiter })),
+    );
+    expect(output).toHaveLength(input.length);
+    let peak = 0;
+    for (let i = 0; i < output.length; i += 4) {
+      peak = Math.max(peak, Math.abs(output.readFloatLE(i)));
+    }
+    return peak;
+  };
+
+  expect(await normalize(false)).toEqual(1);
+  expect(await normalize(true)).toBeLessThanOrEqual(10 ** (-1 / 20) + 1e-6);
+});
+
+test('LoudnessMeter flushes the trailing partial frame when normalizing', async () => {
+  // A single sample of the left channel is left at the end of the stream
+  const input = Buffer.concat([sine(1000, 0.1, 1), Buffer.alloc(4)]);
+  const output = await streamToBuffer(Readable.from([input]).pipe(new LoudnessMeter({ type: 'f32le', target: -23 })));
+
+  expect(output).toHaveLength(input.length);
+});
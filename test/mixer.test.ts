@@ -0,0 +1,120 @@
+import { Mixer } from '../src';
+import { streamToBuffer } from './util';
+
+// Generates stereo s16le audio of a constant value
+function constant(value: number, milliseconds: number): Buffer {
+  const buffer = Buffer.alloc(milliseconds * 48 * 4);
+  for (let i = 0; i < buffer.length; i += 2) {
+    buffer.writeInt16LE(value, i);
+  }
+  return buffer;
+}
+
+function samples(buffer: Buffer): number[] {
+  return Array.from({ length: buffer.length / 2 }, (_, i) => buffer.readInt16LE(i * 2));
+}
+
+test('Mixer sums its inputs and pads them with silence', async () => {
+  const mixer = new Mixer({ type: 's16le' });
+  mixer.addInput().end(constant(1000, 100));
+  mixer.addInput({ volume: 0.5 }).end(constant(2000, 50));
+  const muted = mixer.addInput({ muted: true });
+  muted.end(constant(3000, 30));
+  mixer.end();
+
+  expect(mixer.inputs).toHaveLength(3);
+  expect(muted.muted).toBe(true);
+  const output = await streamToBuffer(mixer);
+  expect(output).toEqual(Buffer.concat([constant(2000, 50), constant(1000, 50)]));
+  expect(mixer.inputs).toHaveLength(0);
+});
+
+test('Mixer starts the inputs added later at the current position', async () => {
+  // Each read mixes a single chunk
+  const mixer = new Mixer({ type: 's16le', chunkDuration: 10, highWaterMark: 1 });
+  const first = mixer.addInput();
+  first.write(constant(1000, 40));
+  for (let i = 0; i < 4; i++) {
+    expect(mixer.read()).toEqual(constant(1000, 10));
+  }
+
+  mixer.addInput().end(constant(500, 20));
+  first.end(constant(1000, 20));
+  mixer.end();
+  expect(await streamToBuffer(mixer)).toEqual(constant(1500, 20));
+});
+
+test('Mixer keeps the inputs aligned when they are written asynchronously', async () => {
+  const mixer = new Mixer({ type: 's16le' });
+  const inputs = [mixer.addInput(), mixer.addInput()];
+  const output = streamToBuffer(mixer);
+  // The inputs are written in turn, so one is always 10 ms ahead of the other
+  for (let i = 0; i < 10; i++) {
+    for (const [j, input] of inputs.entries()) {
+      input.write(constant(1000 * (j + 1), 10));
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  }
+  inputs.forEach((input) => input.end());
+  mixer.end();
+
+  expect(await output).toEqual(constant(3000, 100));
+});
+
+test('Mixer pads an input that underruns when read in real time', async () => {
+  const mixers = [false, true].map((realtime) => new Mixer({ type: 's16le', realtime, highWaterMark: 1 }));
+  for (const mixer of mixers) {
+    mixer.addInput().write(constant(500, 10));
+    mixer.addInput().write(constant(1000, 20));
+  }
+  const [waiting, realtime] = mixers;
+  expect(waiting.read()).toBeNull();
+  expect(realtime.read()).toBeNull();
+
+  const chunk = await new Promise((resolve) => realtime.once('readable', () => resolve(realtime.read())));
+  expect(chunk).toEqual(Buffer.concat([constant(1500, 10), constant(1000, 10)]));
+  expect(waiting.read()).toBeNull();
+  mixers.forEach((mixer) => mixer.destroy());
+});
+
+test('Mixer applies backpressure to its inputs', async () => {
+  const mixer = new Mixer({ type: 's16le', bufferDuration: 20 });
+  const input = mixer.addInput({ highWaterMark: 1024 });
+
+  expect(input.write(constant(1000, 20))).toBe(false);
+  const drained = new Promise((resolve) => input.once('drain', resolve));
+  expect(mixer.read()).toHaveLength(960 * 4);
+  await drained;
+
+  mixer.removeInput(input);
+  expect(input.destroyed).toBe(true);
+  mixer.end();
+  expect(await streamToBuffer(mixer)).toHaveLength(0);
+});
+
+test('Mixer clips or limits the mix', async () => {
+  const clipping = new Mixer({ type: 's16le' });
+  let clipped = 0;
+  clipping.on('clip', (count: number) => (clipped += count));
+  clipping.addInput().end(constant(20000, 20));
+  clipping.addInput().end(constant(20000, 20));
+  clipping.end();
+
+  expect(samples(await streamToBuffer(clipping))).toEqual(Array(960 * 2).fill(32767));
+  expect(clipped).toBe(960 * 2);
+  expect(clipping.clippedSamples).toBe(960 * 2);
+
+  const limiting = new Mixer({ type: 's16le', limiter: { threshold: -6 } });
+  limiting.addInput().end(constant(20000, 20));
+  limiting.addInput().end(constant(20000, 20));
+  limiting.end();
+
+  const limited = samples(await streamToBuffer(limiting));
+  expect(limited).toHaveLength(960 * 2);
+  expect(Math.max(...limited)).toBeLessThanOrEqual(32768 * 10 ** (-6 / 20));
+});
+
+test('Mixer requires a PCM format', () => {
+  expect(() => new Mixer()).toThrow();
+  expect(() => new Mixer({ type: 'pcm' })).toThrow();
+});
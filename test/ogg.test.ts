@@ -0,0 +1,98 @@
+import { randomBytes } from 'crypto';
+import { Readable } from 'stream';
+import { OggBitstream, OggDemuxer, OggPacket } from '../src';
+import { muxOgg, streamToArray } from './util';
+
+const opusHead = Buffer.concat([Buffer.from('OpusHead'), randomBytes(11)]);
+const vorbisHead = Buffer.concat([Buffer.from('\x01vorbis', 'latin1'), randomBytes(23)]);
+const flacHead = Buffer.concat([Buffer.from('\x7fFLAC', 'latin1'), randomBytes(46)]);
+
+const opusPackets = Array.from({ length: 100 }, () => randomBytes(120));
+const vorbisPackets = [100, 70000, 3000].map((length) => randomBytes(length));
+
+// Interleaves the pages of several logical bitstreams
+async function multiplex(): Promise<Buffer> {
+  const streams = await Promise.all([
+    muxOgg(1, [opusHead], opusPackets),
+    muxOgg(2, [vorbisHead], vorbisPackets),
+    muxOgg(3, [flacHead], []),
+  ]);
+  const pages: Buffer[] = [];
+  for (let i = 0; streams.some((stream) => i < stream.length); i++) {
+    for (const stream of streams) {
+      if (i < stream.length) {
+        pages.push(stream[i]);
+      }
+    }
+  }
+  return Buffer.concat(pages);
+}
+
+test('OggDemuxer available', () => {
+  expect(OggDemuxer).toBeTruthy();
+});
+
+test('OggDemuxer reports every logical bitstream', async (done) => {
+  expect.assertions(2);
+
+  const demuxer = new OggDemuxer();
+  const bitstreams: OggBitstream[] = [];
+  demuxer.on('bitstream', (bitstream: OggBitstream) => bitstreams.push(bitstream));
+  const packets = await streamToArray<OggPacket>(Readable.from([await multiplex()]).pipe(demuxer));
+
+  expect(bitstreams.map(({ serial, codec }) => ({ serial, codec }))).toEqual([
+    { serial: 1, codec: 'opus' },
+    { serial: 2, codec: 'vorbis' },
+    { serial: 3, codec: 'flac' },
+  ]);
+  expect(packets).toHaveLength(3 + opusPackets.length + vorbisPackets.length);
+  done();
+});
+
+test('OggDemuxer selects logical bitstreams', async (done) => {
+  expect.assertions(4);
+
+  const opus = await streamToArray<OggPacket>(
+    Readable.from([await multiplex()]).pipe(new OggDemuxer({ bitstreams: ({ codec }) => codec === 'opus' })),
+  );
+  const vorbis = await streamToArray<OggPacket>(
+    Readable.from([await multiplex()]).pipe(new OggDemuxer({ bitstreams: [2] })),
+  );
+
+  expect(opus.map(({ data }) => data)).toEqual([opusHead, ...opusPackets]);
+  expect(vorbis.map(({ data }) => data)).toEqual([vorbisHead, ...vorbisPackets]);
+  // Only the last packet completed on a page has a granule position
+  expect(vorbis.map(({ granulePosition }) => granulePosition)).toEqual([0, 960, -1, 2880]);
+  expect(opus[opus.length - 1].granulePosition).toEqual(opusPackets.length * 960);
+  done();
+});
+
+test('OggDemuxer resynchronises after corruption', async (done) => {
+  expect.assertions(4);
+
+  // Each page contains a single packet
+  const pages = await muxOgg(1, [opusHead], opusPackets.slice(0, 10), 0);
+  const corrupted = Buffer.from(pages[3]);
+  corrupted[corrupted.length - 1] ^= 0xff;
+  const junk = randomBytes(100);
+  const input = Buffer.concat([junk, ...pages.slice(0, 3), corrupted, ...pages.slice(4)]);
+  const corruptPageOffset = junk.length + pages[0].length + pages[1].length + pages[2].length;
+
+  const demuxer = new OggDemuxer({ resync: true });
+  const corruptPages: unknown[] = [];
+  const resyncs: unknown[] = [];
+  demuxer.on('corruptPage', (event) => corruptPages.push(event));
+  demuxer.on('resync', (event) => resyncs.push(event));
+  const packets = await streamToArray<OggPacket>(Readable.from([input]).pipe(demuxer));
+
+  expect(packets.map(({ data }) => data)).toEqual([opusHead, ...opusPackets.slice(0, 2), ...opusPackets.slice(3, 10)]);
+  expect(corruptPages).toEqual([{ offset: corruptPageOffset, length: corrupted.length }]);
+  expect(resyncs).toEqual([
+    { offset: 0, discarded: junk.length },
+    { offset: corruptPageOffset, discarded: corrupted.length },
+  ]);
+  await expect(streamToArray(Readable.from([input]).pipe(new OggDemuxer()))).rejects.toThrow(
+    'capture_pattern is not OggS',
+  );
+  done();
+});
@@ -1,17 +1,28 @@
+import { randomBytes } from 'crypto';
 import { createReadStream } from 'fs';
-import { opus } from '../src';
-import { streamToBuffer } from './util';
+import { Readable } from 'stream';
+import { DemuxedPacket, opus, OggDemuxer, OggPacket, PACKET_FLAGS, VorbisComment } from '../src';
+import { createPacket, getPacketFrames } from '../src/opus/Packet';
+import { bufferSource, muxOgg, streamToArray, streamToBuffer } from './util';
 
 test('opus.OggDemuxer available', () => {
   expect(opus.OggDemuxer).toBeTruthy();
 });
 
+test('opus.OggMuxer available', () => {
+  expect(opus.OggMuxer).toBeTruthy();
+});
+
 test('opus.WebmDemuxer available', () => {
   expect(opus.WebmDemuxer).toBeTruthy();
   expect(opus.WebmDemuxer.TOO_SHORT).toBeTruthy();
   expect(opus.WebmDemuxer.TAGS).toBeTruthy();
 });
 
+test('opus.WebmMuxer available', () => {
+  expect(opus.WebmMuxer).toBeTruthy();
+});
+
 test('Opus encoders/decoders available', () => {
   expect(opus).toBeTruthy();
   expect(opus.Encoder).toBeTruthy();
@@ -41,3 +52,499 @@ test('opus.WebmDemuxer is sane', async (done) => {
   expect(chunks.length).toBeGreaterThanOrEqual(103e3);
   done();
 });
+
+test('opus.OggMuxer is sane', async (done) => {
+  expect.assertions(3);
+
+  const packets = await streamToArray<Buffer>(
+    createReadStream('./test/audio/speech_orig.ogg').pipe(new opus.OggDemuxer()),
+  );
+  const demuxer = new opus.OggDemuxer();
+  const tags = new Promise<VorbisComment>((resolve) => demuxer.once('tags', resolve));
+  const remuxed = await streamToArray<Buffer>(
+    createReadStream('./test/audio/speech_orig.ogg')
+      .pipe(new opus.OggDemuxer())
+      .pipe(new opus.OggMuxer({ channels: 1 }))
+      .pipe(demuxer),
+  );
+
+  expect(remuxed).toHaveLength(packets.length);
+  expect(Buffer.concat(remuxed).equals(Buffer.concat(packets))).toEqual(true);
+  expect((await tags).vendor).toEqual('prism-media');
+  done();
+});
+
+test('opus.WebmMuxer is sane', async (done) => {
+  expect.assertions(3);
+
+  const packets = await streamToArray<Buffer>(
+    createReadStream('./test/audio/speech_orig.webm').pipe(new opus.WebmDemuxer()),
+  );
+  const muxer = new opus.WebmMuxer({ channels: 1, cues: true, tags: { TITLE: 'Speech' } });
+  const header = new Promise<[Buffer, number]>((resolve) =>
+    muxer.on('header', (data: Buffer, offset: number) => resolve([data, offset])),
+  );
+  const output = await streamToBuffer(
+    createReadStream('./test/audio/speech_orig.webm').pipe(new opus.WebmDemuxer()).pipe(muxer),
+  );
+
+  const [data, offset] = await header;
+  expect(data.slice(0, 4).equals(output.slice(offset, offset + 4))).toEqual(true);
+  data.copy(output, offset);
+
+  const remuxed = await streamToArray<Buffer>(Readable.from([output]).pipe(new opus.WebmDemuxer()));
+  expect(remuxed).toHaveLength(packets.length);
+  expect(Buffer.concat(remuxed).equals(Buffer.concat(packets))).toEqual(true);
+  done();
+});
+
+test('opus.OggDemuxer seeks', async (done) => {
+  expect.assertions(3);
+
+  const packets = await streamToArray<Buffer>(
+    createReadStream('./test/audio/speech_orig.ogg').pipe(new opus.OggDemuxer()),
+  );
+  const demuxer = new opus.OggDemuxer();
+  const seeked = streamToArray<Buffer>(demuxer);
+  await demuxer.seek('./test/audio/speech_orig.ogg', 5000);
+
+  expect(demuxer.duration).toBeGreaterThan(1000);
+  const remaining = await seeked;
+  expect(remaining.length).toBeLessThan(packets.length);
+  expect(Buffer.concat(packets).slice(-Buffer.concat(remaining).length).equals(Buffer.concat(remaining))).toEqual(true);
+  done();
+});
+
+test('opus.WebmDemuxer seeks', async (done) => {
+  expect.assertions(4);
+
+  const muxer = new opus.WebmMuxer({ channels: 1, cues: true, clusterDuration: 200 });
+  const header = new Promise<[Buffer, number]>((resolve) =>
+    muxer.on('header', (data: Buffer, offset: number) => resolve([data, offset])),
+  );
+  const output = await streamToBuffer(
+    createReadStream('./test/audio/speech_orig.webm').pipe(new opus.WebmDemuxer()).pipe(muxer),
+  );
+  const [data, offset] = await header;
+  data.copy(output, offset);
+
+  const packets = await streamToArray<Buffer>(Readable.from([output]).pipe(new opus.WebmDemuxer()));
+  const demuxer = new opus.WebmDemuxer();
+  const seeked = streamToArray<Buffer>(demuxer);
+  await demuxer.seek(bufferSource(output), 1000);
+
+  expect(demuxer.duration).toBeCloseTo(packets.length * 20, -2);
+  const remaining = await seeked;
+  expect(remaining.length).toBeLessThan(packets.length);
+  expect(remaining.length).toBeGreaterThanOrEqual(packets.length - 50);
+  expect(Buffer.concat(packets).slice(-Buffer.concat(remaining).length).equals(Buffer.concat(remaining))).toEqual(true);
+  done();
+});
+
+test('opus.OggDemuxer outputs packet metadata', async (done) => {
+  expect.assertions(3);
+
+  const packets = await streamToArray<DemuxedPacket>(
+    createReadStream('./test/audio/speech_orig.ogg').pipe(new opus.OggDemuxer({ metadata: true })),
+  );
+
+  // The first packet starts before 0 because of the pre-skip (312 samples)
+  expect(packets[0]).toMatchObject({ timestamp: -6.5, duration: 20, flags: 0 });
+  expect(packets.every(({ timestamp }, i) => i === 0 || timestamp === packets[i - 1].timestamp + 20)).toEqual(true);
+  expect(new Set(packets.map(({ trackNumber }) => trackNumber)).size).toEqual(1);
+  done();
+});
+
+test('opus.WebmDemuxer outputs packet metadata', async (done) => {
+  expect.assertions(3);
+
+  const packets = await streamToArray<DemuxedPacket>(
+    createReadStream('./test/audio/speech_orig.webm').pipe(new opus.WebmDemuxer({ metadata: true })),
+  );
+
+  // The timestamps are shifted by the CodecDelay of the track (6.5 ms)
+  expect(packets[0]).toMatchObject({ timestamp: -6.5, duration: 20, trackNumber: 1, flags: PACKET_FLAGS.KEYFRAME });
+  expect(packets.every(({ timestamp }, i) => i === 0 || timestamp > packets[i - 1].timestamp)).toEqual(true);
+  expect(packets[packets.length - 1].timestamp).toBeGreaterThan(10e3);
+  done();
+});
+
+// Decodes speech_orig.ogg, the decoder reading the OpusHead packet from the demuxer
+function decodeOgg(options: { metadata?: boolean; head?: (head: Buffer) => void } = {}): Promise<Buffer> {
+  const demuxer = new opus.OggDemuxer({ metadata: options.metadata });
+  if (options.head) {
+    // Listeners are called in order, so the OpusHead packet is modified before the decoder reads it
+    demuxer.once('head', options.head);
+  }
+  const decoder = new opus.Decoder({ rate: 48000, channels: 1, frameSize: 960 });
+  return streamToBuffer(createReadStream('./test/audio/speech_orig.ogg').pipe(demuxer).pipe(decoder));
+}
+
+test('opus.Decoder trims the pre-skip', async (done) => {
+  expect.assertions(2);
+
+  const packets = await streamToArray<Buffer>(
+    createReadStream('./test/audio/speech_orig.ogg').pipe(new opus.OggDemuxer()),
+  );
+  const samples = packets.length * 960;
+  expect(await decodeOgg()).toHaveLength((samples - 312) * 2);
+
+  // With packet metadata, the padding at the end of the stream is trimmed too
+  const oggPackets = await streamToArray<OggPacket>(
+    createReadStream('./test/audio/speech_orig.ogg').pipe(new OggDemuxer()),
+  );
+  const lastGranulePosition = oggPackets[oggPackets.length - 1].granulePosition;
+  expect(await decodeOgg({ metadata: true })).toHaveLength((lastGranulePosition - 312) * 2);
+  done();
+});
+
+test('opus.Decoder applies the output gain', async (done) => {
+  expect.assertions(1);
+
+  const output = await decodeOgg();
+  // -6.0206 dB halves the amplitude
+  const attenuated = await decodeOgg({
+    head: (head) => head.writeInt16LE(Math.round(-6.0206 * 256), 16),
+  });
+
+  let maxError = 0;
+  for (let i = 0; i < output.length; i += 2) {
+    maxError = Math.max(maxError, Math.abs(output.readInt16LE(i) / 2 - attenuated.readInt16LE(i)));
+  }
+  expect(maxError).toBeLessThanOrEqual(1);
+  done();
+});
+
+test('opus.Decoder checks the number of channels', async (done) => {
+  expect.assertions(1);
+
+  const decoder = new opus.Decoder({ rate: 48000, channels: 2, frameSize: 960, strictChannels: true });
+  createReadStream('./test/audio/speech_orig.ogg').pipe(new opus.OggDemuxer()).pipe(decoder);
+
+  await expect(new Promise((resolve, reject) => decoder.on('error', reject).on('end', resolve))).rejects.toThrow(
+    'channels',
+  );
+  done();
+});
+
+test('opus.Decoder reads the OpusHead packet from a piped WebmDemuxer', async (done) => {
+  expect.assertions(2);
+
+  const packets = await streamToArray<Buffer>(
+    createReadStream('./test/audio/speech_orig.webm').pipe(new opus.WebmDemuxer()),
+  );
+  const decoder = new opus.Decoder({ rate: 48000, channels: 1, frameSize: 960 });
+  const format = new Promise((resolve) => decoder.once('format', resolve));
+  const pcm = await streamToBuffer(
+    createReadStream('./test/audio/speech_orig.webm').pipe(new opus.WebmDemuxer()).pipe(decoder),
+  );
+
+  expect(await format).toMatchObject({ channels: 1, sampleRate: 48000, preSkip: 312 });
+  expect(pcm).toHaveLength((packets.length * 960 - 312) * 2);
+  done();
+});
+
+test('opus.Decoder decodes each link of a chained Ogg stream with its own OpusHead', async (done) => {
+  expect.assertions(4);
+
+  const source = new opus.OggDemuxer();
+  const head = new Promise<Buffer>((resolve) => source.once('head', resolve));
+  const packets = await streamToArray<Buffer>(createReadStream('./test/audio/speech_orig.ogg').pipe(source));
+  // The second link is 20 dB quieter
+  const quietHead = Buffer.from(await head);
+  quietHead.writeInt16LE(-20 * 256, 16);
+  const link = Buffer.concat(await muxOgg(1, [await head], packets));
+  const quietLink = Buffer.concat(await muxOgg(2, [quietHead], packets));
+
+  const decoder = () => new opus.Decoder({ rate: 48000, channels: 1, frameSize: 960 });
+  const first = await streamToBuffer(Readable.from([link]).pipe(new opus.OggDemuxer()).pipe(decoder()));
+
+  const demuxer = new opus.OggDemuxer();
+  const chained = Readable.from([Buffer.concat([link, quietLink])])
+    .pipe(demuxer)
+    .pipe(decoder());
+  const gains: number[] = [];
+  chained.on('format', ({ gain }: { gain: number }) => gains.push(gain));
+  // The decoder is only read once the OpusHead of the second link has been read, while most packets of the first link
+  // are still buffered by the demuxer
+  let heads = 0;
+  await new Promise<void>((resolve) => demuxer.on('head', () => ++heads === 2 && resolve()));
+  const pcm = await streamToBuffer(chained);
+
+  expect(gains).toEqual([(await head).readInt16LE(16) / 256, -20]);
+  expect(pcm).toHaveLength(first.length * 2);
+  expect(pcm.slice(0, first.length).equals(first)).toBe(true);
+  expect(channelRms(pcm.slice(first.length), 1, 0)).toBeLessThan(channelRms(first, 1, 0) / 5);
+  done();
+});
+
+// Generates interleaved PCM with a 440 Hz sine wave of a different amplitude on each channel
+function surroundPcm(channels: number, samples: number): Buffer {
+  const pcm = Buffer.alloc(samples * channels * 2);
+  for (let i = 0; i < samples; i++) {
+    for (let channel = 0; channel < channels; channel++) {
+      const value = Math.round((channel + 1) * 2000 * Math.sin((2 * Math.PI * 440 * i) / 48000));
+      pcm.writeInt16LE(value, (i * channels + channel) * 2);
+    }
+  }
+  return pcm;
+}
+
+function channelRms(pcm: Buffer, channels: number, channel: number): number {
+  let sum = 0;
+  const samples = pcm.length / (channels * 2);
+  for (let i = 0; i < samples; i++) {
+    sum += pcm.readInt16LE((i * channels + channel) * 2) ** 2;
+  }
+  return Math.sqrt(sum / samples);
+}
+
+test('opus.defaultChannelMapping follows RFC 7845', () => {
+  expect(opus.defaultChannelMapping(2)).toEqual({ family: 0, streams: 1, coupledStreams: 1, mapping: [0, 1] });
+  expect(opus.defaultChannelMapping(6)).toEqual({
+    family: 1,
+    streams: 4,
+    coupledStreams: 2,
+    mapping: [0, 4, 1, 2, 3, 5],
+  });
+  expect(opus.defaultChannelMapping(6, 2)).toEqual({
+    family: 2,
+    streams: 5,
+    coupledStreams: 1,
+    mapping: [2, 3, 4, 5, 0, 1],
+  });
+  expect(() => opus.defaultChannelMapping(3, 0)).toThrow();
+});
+
+test('Multistream Opus encoders/decoders are sane', async (done) => {
+  expect.assertions(6);
+
+  const channels = 6;
+  // The decoder can only use this mapping (instead of the default one of family 1) if it reads the OpusHead packet
+  const mapping = opus.defaultChannelMapping(channels, 2);
+  const encoder = new opus.Encoder({ rate: 48000, channels, frameSize: 960, mapping });
+  const ogg = await streamToBuffer(
+    Readable.from([surroundPcm(channels, 48000)])
+      .pipe(encoder)
+      .pipe(new opus.OggMuxer({ channels, mapping: encoder.mapping })),
+  );
+
+  const decoder = new opus.Decoder({ rate: 48000, channels, frameSize: 960 });
+  const pcm = await streamToBuffer(Readable.from([ogg]).pipe(new opus.OggDemuxer()).pipe(decoder));
+
+  // The first samples are skipped as the encoder converges
+  const converged = pcm.slice(4800 * channels * 2);
+  for (let channel = 0; channel < channels; channel++) {
+    const expected = ((channel + 1) * 2000) / Math.SQRT2;
+    expect(Math.abs(channelRms(converged, channels, channel) - expected) / expected).toBeLessThan(0.1);
+  }
+  done();
+});
+
+test('opus.Encoder applies and validates encoder settings', async (done) => {
+  expect.assertions(7);
+
+  const encoder = new opus.Encoder({ rate: 48000, channels: 2, frameSize: 960 });
+  encoder.setBitrate(64000);
+  encoder.setBitrateMode('cbr');
+  encoder.setComplexity(5);
+  encoder.setSignal('music');
+  encoder.setApplication('audio');
+  encoder.setMaxBandwidth('wideband');
+  encoder.setLSBDepth(16);
+  encoder.setForceChannels(1);
+
+  expect(encoder.getBitrate()).toEqual(64000);
+  expect(encoder.getBitrateMode()).toEqual('cbr');
+  expect(encoder.getMaxBandwidth()).toEqual('wideband');
+  expect(encoder.getDTX()).toBeUndefined();
+  expect(() => encoder.setBitrate(600000)).toThrow(RangeError);
+  expect(() => encoder.setComplexity(11)).toThrow(RangeError);
+
+  // Constant bitrate packets of 20 ms at 64 kbps are 160 bytes long
+  const packets = await streamToArray<Buffer>(Readable.from([surroundPcm(2, 48000)]).pipe(encoder));
+  expect(packets.every((packet) => packet.length === 160)).toEqual(true);
+  done();
+});
+
+test('opus.Decoder conceals lost packets', async (done) => {
+  expect.assertions(3);
+
+  const packets = await streamToArray<Buffer>(
+    Readable.from([surroundPcm(2, 960 * 10)]).pipe(new opus.Encoder({ rate: 48000, channels: 2, frameSize: 960 })),
+  );
+  const decoder = new opus.Decoder({ rate: 48000, channels: 2, frameSize: 960 });
+  const lost = packets.map((packet, i) => (i === 5 ? Buffer.alloc(0) : packet));
+  const pcm = await streamToBuffer(Readable.from(lost).pipe(decoder));
+
+  expect(pcm.length).toEqual(960 * 10 * 4);
+  expect(decoder.concealedFrames).toEqual(1);
+  expect(channelRms(pcm.slice(960 * 5 * 4, 960 * 6 * 4), 2, 1)).toBeGreaterThan(1000);
+  done();
+});
+
+test('opus.Encoder and opus.Decoder support variable frame durations', async (done) => {
+  expect.assertions(5);
+
+  expect(() => new opus.Encoder({ rate: 48000, channels: 2, frameDuration: 30 })).toThrow(RangeError);
+  expect(() => new opus.Encoder({ rate: 48000, channels: 2, frameSize: 960, frameDuration: 10 })).toThrow(RangeError);
+
+  const encoder = new opus.Encoder({ rate: 48000, channels: 2, frameDuration: 10 });
+  expect(encoder.frameDuration).toEqual(10);
+  const packets: Buffer[] = [];
+  encoder.on('data', (packet: Buffer) => packets.push(packet));
+  encoder.write(surroundPcm(2, 960));
+  encoder.setFrameDuration(2.5);
+  encoder.write(surroundPcm(2, 240));
+  encoder.setFrameDuration(20);
+  encoder.end(surroundPcm(2, 960));
+  await new Promise((resolve) => encoder.once('end', resolve));
+
+  const decoder = new opus.Decoder({ rate: 48000, channels: 2 });
+  const sizes: number[] = [];
+  decoder.on('data', (pcm: Buffer) => sizes.push(pcm.length / 4));
+  await streamToBuffer(Readable.from(packets).pipe(decoder));
+
+  expect(packets.length).toEqual(5);
+  expect(sizes).toEqual([480, 480, 120, 120, 960]);
+  done();
+});
+
+test('opus.Encoder flushes the last partial frame', async (done) => {
+  expect.assertions(5);
+
+  const drop = new opus.Encoder({ rate: 48000, channels: 2, frameSize: 960, partialFrame: 'drop' });
+  expect(await streamToArray(Readable.from([surroundPcm(2, 1000)]).pipe(drop))).toHaveLength(1);
+  const error = new opus.Encoder({ rate: 48000, channels: 2, frameSize: 960, partialFrame: 'error' });
+  const emitted = new Promise<Error>((resolve) => error.once('error', resolve));
+  Readable.from([surroundPcm(2, 1000)])
+    .pipe(error)
+    .resume();
+  expect((await emitted).message).toMatch('partial frame');
+
+  const encoder = new opus.Encoder({ rate: 48000, channels: 2, frameSize: 960 });
+  const muxer = new opus.OggMuxer();
+  encoder.once('padding', (samples: number) => muxer.setEndTrim(samples));
+  const ogg = await streamToBuffer(
+    Readable.from([surroundPcm(2, 1000)])
+      .pipe(encoder)
+      .pipe(muxer),
+  );
+  expect(encoder.paddingSamples).toEqual(920);
+
+  const packets = await streamToArray<DemuxedPacket>(
+    Readable.from([ogg]).pipe(new opus.OggDemuxer({ metadata: true })),
+  );
+  expect(packets).toHaveLength(2);
+  // The 312 samples of pre-skip and the 920 samples of padding are trimmed
+  const pcm = await streamToBuffer(
+    Readable.from(packets).pipe(new opus.Decoder({ rate: 48000, channels: 2, frameSize: 960 })),
+  );
+  expect(pcm.length).toEqual((1000 - 312) * 4);
+  done();
+});
+
+test('opus.Encoder reports the padding in 48 kHz samples', async (done) => {
+  expect.assertions(2);
+
+  const encoder = new opus.Encoder({ rate: 24000, channels: 2, frameSize: 480 });
+  const muxer = new opus.OggMuxer();
+  encoder.once('padding', (samples: number) => muxer.setEndTrim(samples));
+  const ogg = await streamToBuffer(
+    Readable.from([surroundPcm(2, 500)])
+      .pipe(encoder)
+      .pipe(muxer),
+  );
+  // 460 samples at 24 kHz
+  expect(encoder.paddingSamples).toEqual(920);
+
+  // The 156 samples of pre-skip (312 at 48 kHz) and the 460 samples of padding are trimmed
+  const pcm = await streamToBuffer(
+    Readable.from([ogg])
+      .pipe(new opus.OggDemuxer({ metadata: true }))
+      .pipe(new opus.Decoder({ rate: 24000, channels: 2, frameSize: 480 })),
+  );
+  expect(pcm.length).toEqual((500 - 156) * 4);
+  done();
+});
+
+test('opus.parsePacket reads the TOC byte and the framing', () => {
+  expect(opus.parsePacket(Buffer.from([0x78, 1, 2, 3]))).toEqual({
+    config: 15,
+    mode: 'hybrid',
+    bandwidth: 'fullband',
+    stereo: false,
+    code: 0,
+    frames: 1,
+    frameDuration: 20,
+    samples: 960,
+    duration: 20,
+    padding: 0,
+  });
+  // 3 CELT wideband stereo frames of 2.5 ms with 2 padding bytes
+  expect(opus.parsePacket(Buffer.from([0xa7, 0x43, 2, 1, 2, 3, 4, 5, 6, 0, 0]))).toMatchObject({
+    mode: 'celt',
+    bandwidth: 'wideband',
+    stereo: true,
+    code: 3,
+    frames: 3,
+    duration: 7.5,
+    padding: 2,
+  });
+  expect(opus.parsePacket(Buffer.from([0x09, 1, 2])).mode).toEqual('silk');
+  // 2 frames of equal sizes can't have an odd total length
+  expect(() => opus.parsePacket(Buffer.from([0x79, 1, 2, 3]))).toThrow();
+  expect(() => opus.parsePacket(Buffer.alloc(0))).toThrow();
+});
+
+test('opus.PacketInspector reports packet statistics', async (done) => {
+  expect.assertions(4);
+
+  const inspector = new opus.PacketInspector();
+  const durations: number[] = [];
+  inspector.on('packet', ({ duration }: opus.OpusPacketInfo) => durations.push(duration));
+  const packets = await streamToArray<Buffer>(
+    createReadStream('./test/audio/speech_orig.ogg').pipe(new opus.OggDemuxer()).pipe(inspector),
+  );
+
+  expect(inspector.statistics.packets).toEqual(durations.length);
+  expect(inspector.statistics.invalidPackets).toEqual(0);
+  expect(inspector.statistics.bytes).toEqual(packets.reduce((n, p) => n + p.length, 0));
+  expect(inspector.statistics.duration).toEqual(durations.reduce((total, duration) => total + duration, 0));
+  done();
+});
+
+test('opus.Repacketizer splits and merges frames', async (done) => {
+  expect.assertions(5);
+
+  const frame = (length: number) => randomBytes(length);
+  // 20 ms hybrid frames: 3 frames of different sizes, 2 frames of equal sizes, then a single frame
+  const packets = [
+    createPacket(0x78, [frame(10), frame(20), frame(30)]),
+    createPacket(0x78, [frame(40), frame(40)]),
+    createPacket(0x78, [frame(50)]),
+  ];
+  const frames = packets.flatMap((packet) => getPacketFrames(packet));
+
+  const split = await streamToArray<Buffer>(Readable.from(packets).pipe(new opus.Repacketizer()));
+  expect(split.map((packet) => opus.parsePacket(packet).frames)).toEqual([1, 1, 1, 1, 1, 1]);
+  expect(split.flatMap((packet) => getPacketFrames(packet))).toEqual(frames);
+
+  const merged = await streamToArray<Buffer>(
+    Readable.from(packets).pipe(new opus.Repacketizer({ packetDuration: 40 })),
+  );
+  expect(merged.map((packet) => opus.parsePacket(packet).duration)).toEqual([40, 40, 40]);
+  expect(merged.flatMap((packet) => getPacketFrames(packet))).toEqual(frames);
+
+  const timed = await streamToArray<DemuxedPacket>(
+    Readable.from([{ data: packets[0], timestamp: -5, duration: 50, trackNumber: 1, flags: 0 }]).pipe(
+      new opus.Repacketizer(),
+    ),
+  );
+  expect(timed.map(({ timestamp, duration }) => [timestamp, duration])).toEqual([
+    [-5, 20],
+    [15, 20],
+    [35, 10],
+  ]);
+  done();
+});
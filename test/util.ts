@@ -1,4 +1,6 @@
-import { Stream } from 'stream';
+import { Readable, Stream } from 'stream';
+import { OggBaseMuxer } from '../src/core/OggBase';
+import { SeekableSource } from '../src/core/Seekable';
 
 // The output is slightly different on travis because of ffmpeg version, should account for it
 export function roughlyEquals(x: Buffer, y: Buffer): boolean {
@@ -20,7 +22,46 @@ export function streamToBuffer(stream: Stream): Promise<Buffer> {
     const chunks: Buffer[] = [];
 
     stream.on('data', (chunk: Buffer) => chunks.push(chunk));
-    stream.on('error', () => reject());
+    stream.on('error', reject);
     stream.on('end', () => resolve(Buffer.concat(chunks)));
   });
 }
+
+export function streamToArray<T>(stream: Stream): Promise<T[]> {
+  return new Promise((resolve, reject) => {
+    const items: T[] = [];
+
+    stream.on('data', (item: T) => items.push(item));
+    stream.on('error', reject);
+    stream.on('end', () => resolve(items));
+  });
+}
+
+class TestOggMuxer extends OggBaseMuxer {
+  private readonly headers: Buffer[];
+
+  public constructor(serial: number, headers: Buffer[], pageDuration?: number) {
+    super({ serial, pageDuration });
+    this.headers = headers;
+  }
+
+  protected _headers(): Buffer[] {
+    return this.headers;
+  }
+
+  protected _packetDuration(): number {
+    return 960;
+  }
+}
+
+// Muxes packets in a logical bitstream, each packet lasting 960 granule position units
+export function muxOgg(serial: number, headers: Buffer[], packets: Buffer[], pageDuration?: number): Promise<Buffer[]> {
+  return streamToArray<Buffer>(Readable.from(packets).pipe(new TestOggMuxer(serial, headers, pageDuration)));
+}
+
+export function bufferSource(buffer: Buffer): SeekableSource {
+  return {
+    size: () => Promise.resolve(buffer.length),
+    read: (position, length) => Promise.resolve(buffer.slice(position, position + length)),
+  };
+}
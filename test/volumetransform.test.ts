@@ -110,6 +110,7 @@ test('Volume Transformers available', () => {
   expect(new prism.VolumeTransformer({ type: 's16be' })).toBeTruthy();
   expect(new prism.VolumeTransformer({ type: 's32le' })).toBeTruthy();
   expect(new prism.VolumeTransformer({ type: 's32be' })).toBeTruthy();
+  expect(new prism.VolumeTransformer({ type: prism.PCM_FORMATS.f32le })).toBeTruthy();
   expect(() => new prism.VolumeTransformer({ type: 'transformer boi' })).toThrow();
 });
 
@@ -133,3 +134,122 @@ test('Volume Transformer S16LE', () => testVolume('s16le'));
 test('Volume Transformer S16BE', () => testVolume('s16be'));
 test('Volume Transformer S32LE', () => testVolume('s32le'));
 test('Volume Transformer S32BE', () => testVolume('s32be'));
+
+async function transformSamples(type: string, samples: number[], volume: number): Promise<number[]> {
+  const format = prism.PCM_FORMATS[type as prism.PcmType];
+  const input = Buffer.alloc(samples.length * format.bytes);
+  samples.forEach((sample, i) => format.write(input, sample, i * format.bytes));
+
+  const output = await streamToBuffer(
+    new AudioSource({ data: input }).pipe(new prism.VolumeTransformer({ type, volume })),
+  );
+  return samples.map((_, i) => format.read(output, i * format.bytes));
+}
+
+test('Volume Transformer S24LE/S24BE', async () => {
+  const MAX_24 = 2 ** 23;
+  for (const type of ['s24le', 's24be']) {
+    expect(await transformSamples(type, [1, -3, 2 ** 20, -(2 ** 20)], 16)).toEqual([16, -48, MAX_24 - 1, -MAX_24]);
+  }
+});
+
+test('Volume Transformer U8', async () => {
+  // Unsigned samples are centred on 128
+  const input = Buffer.from([128, 129, 126, 250, 5]);
+  const output = await streamToBuffer(
+    new AudioSource({ data: input }).pipe(new prism.VolumeTransformer({ type: 'u8', volume: 2 })),
+  );
+  expect([...output]).toEqual([128, 130, 124, 255, 0]);
+});
+
+test('Volume Transformer F32LE/F32BE/F64LE', async () => {
+  for (const type of ['f32le', 'f32be', 'f64le']) {
+    expect(await transformSamples(type, [0.25, -0.125, 0.75, -0.875], 2)).toEqual([0.5, -0.25, 1, -1]);
+    // Float samples are clipped even when the volume is left unchanged
+    expect(await transformSamples(type, [0.5, 1.5, -2], 1)).toEqual([0.5, 1, -1]);
+  }
+});
+
+test('Volume Transformer ramps the volume', async () => {
+  const format = prism.PCM_FORMATS.s16le;
+  const input = Buffer.alloc(20 * format.bytes);
+  for (let i = 0; i < 20; i++) {
+    format.write(input, 1000, i * format.bytes);
+  }
+
+  // At 1 kHz, a frame lasts 1 ms
+  const transformer = new prism.VolumeTransformer({ type: format, rate: 1000, channels: 1 });
+  const ended = new Promise((resolve) => transformer.once('rampEnd', resolve));
+  transformer.rampTo(0, 10);
+  const output = await streamToBuffer(new AudioSource({ data: input }).pipe(transformer));
+  const samples = Array.from({ length: 20 }, (_, i) => format.read(output, i * format.bytes));
+
+  const expected = [900, 800, 700, 600, 500, 400, 300, 200, 100, ...Array(11).fill(0)];
+  samples.forEach((sample, i) => expect(Math.abs(sample - expected[i])).toBeLessThanOrEqual(1));
+  expect(await ended).toEqual(0);
+});
+
+test('Volume Transformer fades all the channels of a frame together', async () => {
+  const format = prism.PCM_FORMATS.f32le;
+  const input = Buffer.alloc(2 * 100 * format.bytes);
+  for (let i = 0; i < 200; i++) {
+    format.write(input, 0.5, i * format.bytes);
+  }
+
+  for (const curve of ['linear', 'exponential', 'logarithmic'] as prism.RampCurve[]) {
+    const transformer = new prism.VolumeTransformer({ type: 'f32le', rate: 1000, channels: 2 });
+    transformer.fadeIn(50, 1, curve);
+    const output = await streamToBuffer(new AudioSource({ data: input }).pipe(transformer));
+    const frames = Array.from({ length: 100 }, (_, i) => [format.read(output, i * 8), format.read(output, i * 8 + 4)]);
+
+    expect(frames.every(([left, right]) => left === right)).toEqual(true);
+    expect(frames.every(([left], i) => i === 0 || left >= frames[i - 1][0])).toEqual(true);
+    expect(frames[0][0]).toBeLessThan(0.05);
+    expect(frames.slice(50).every(([left]) => left === 0.5)).toEqual(true);
+  }
+});
+
+test('Volume Transformer limits peaks and reports clipping', async () => {
+  const format = prism.PCM_FORMATS.s16le;
+  const samples = Array.from({ length: 4800 }, (_, i) => Math.round(16000 * Math.sin((2 * Math.PI * 440 * i) / 48000)));
+  const input = writeBuffer(samples, 's16le');
+
+  const transformer = new prism.VolumeTransformer({
+    type: 's16le',
+    volume: 4,
+    channels: 1,
+    limiter: { threshold: -3 },
+  });
+  let clipped = 0;
+  transformer.on('clip', (count: number) => (clipped += count));
+  const output = await streamToBuffer(new AudioSource({ data: input }).pipe(transformer));
+  const limited = Array.from({ length: output.length / format.bytes }, (_, i) => format.read(output, i * format.bytes));
+
+  expect(limited).toHaveLength(samples.length);
+  expect(Math.max(...limited.map(Math.abs))).toBeLessThanOrEqual(Math.ceil(10 ** (-3 / 20) * 32768));
+  // Once the gain has settled, the sine wave is scaled down rather than clamped
+  const gains = limited
+    .map((sample, i) => sample / (samples[i] * 4))
+    .filter((_, i) => i > 2400 && Math.abs(samples[i]) > 4000);
+  expect(Math.max(...gains) / Math.min(...gains)).toBeLessThan(1.1);
+  expect(clipped).toEqual(samples.filter((sample) => Math.abs(sample * 4) > 32767).length);
+  expect(transformer.clippedSamples).toEqual(clipped);
+});
+
+test('Volume Transformer soft clips samples', async () => {
+  const input = writeBuffer([4000, 8000, 12000, 16000, -16000], 's16le');
+  const output = await streamToBuffer(
+    new AudioSource({ data: input }).pipe(
+      new prism.VolumeTransformer({ type: 's16le', volume: 2, channels: 1, clipping: 'soft' }),
+    ),
+  );
+  const samples = Array.from({ length: 5 }, (_, i) => output.readInt16LE(i * 2));
+
+  expect(samples[0]).toEqual(8000);
+  expect(samples[1]).toEqual(16000);
+  expect(samples[2]).toBeGreaterThan(16000);
+  expect(samples[2]).toBeLessThan(24000);
+  expect(samples[3]).toBeGreaterThan(samples[2]);
+  expect(samples[3]).toBeLessThan(32767);
+  expect(samples[4]).toEqual(-samples[3] - 1);
+});
@@ -1,7 +1,43 @@
-import { vorbis } from '../src';
+import { randomBytes } from 'crypto';
+import { Readable } from 'stream';
+import { serializeVorbisComment, vorbis } from '../src';
+import { muxOgg, streamToArray } from './util';
+
+function vorbisHeader(type: number, length: number): Buffer {
+  return Buffer.concat([Buffer.from([type]), Buffer.from('vorbis'), randomBytes(length)]);
+}
 
 test('vorbis.WebmDemuxer available', () => {
   expect(vorbis.WebmDemuxer).toBeTruthy();
   expect(vorbis.WebmDemuxer.TOO_SHORT).toBeTruthy();
   expect(vorbis.WebmDemuxer.TAGS).toBeTruthy();
 });
+
+test('vorbis.OggDemuxer available', () => {
+  expect(vorbis.OggDemuxer).toBeTruthy();
+});
+
+test('vorbis.OggDemuxer is sane', async (done) => {
+  expect.assertions(3);
+
+  // The setup header and some of the audio packets span several pages
+  const comment = { vendor: 'libvorbis', comments: { TITLE: ['Title'] }, pictures: [] };
+  const headers = [
+    vorbisHeader(1, 23),
+    Buffer.concat([Buffer.from('\x03vorbis', 'latin1'), serializeVorbisComment(comment), Buffer.from([1])]),
+    vorbisHeader(5, 70000),
+  ];
+  const packets = [1000, 0, 255, 510, 65025, 200000, 42].map((length) => randomBytes(length));
+  const ogg = Buffer.concat(await muxOgg(1234, headers, packets));
+
+  const demuxer = new vorbis.OggDemuxer();
+  const tags = new Promise((resolve) => demuxer.once('tags', resolve));
+  // Feed the demuxer small chunks so that pages are split across chunks
+  const chunks = Array.from({ length: Math.ceil(ogg.length / 1000) }, (_, i) => ogg.slice(i * 1000, (i + 1) * 1000));
+  const output = await streamToArray<Buffer>(Readable.from(chunks).pipe(demuxer));
+
+  expect(output).toHaveLength(headers.length + packets.length);
+  expect(output.every((packet, i) => packet.equals([...headers, ...packets][i]))).toEqual(true);
+  expect(await tags).toEqual(comment);
+  done();
+});
@@ -0,0 +1,91 @@
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+import { opus, parseVorbisComment, serializeVorbisComment, VorbisComment, VorbisPicture } from '../src';
+import { muxOgg, streamToArray, streamToBuffer } from './util';
+
+const cover: VorbisPicture = {
+  type: 3,
+  mimeType: 'image/png',
+  description: 'Front cover',
+  width: 500,
+  height: 500,
+  depth: 24,
+  colors: 0,
+  data: Buffer.from('not really a png'),
+};
+
+test('Vorbis comments are serialized and parsed', () => {
+  const comment: VorbisComment = {
+    vendor: 'prism-media',
+    comments: { TITLE: ['Épisode 1'], ARTIST: ['Someone', 'Someone else'] },
+    pictures: [cover],
+  };
+
+  expect(parseVorbisComment(serializeVorbisComment(comment))).toEqual(comment);
+});
+
+test('Vorbis comment keys are case-insensitive', () => {
+  const buffer = serializeVorbisComment({ vendor: 'test', comments: { Artist: ['A'], ARTIST: ['B'] } });
+
+  expect(parseVorbisComment(buffer)).toEqual({ vendor: 'test', comments: { ARTIST: ['A', 'B'] }, pictures: [] });
+});
+
+test('Truncated Vorbis comments throw', () => {
+  const buffer = serializeVorbisComment({ vendor: 'test', comments: { TITLE: ['Title'] } });
+
+  expect(() => parseVorbisComment(buffer.slice(0, buffer.length - 1))).toThrow();
+});
+
+test('Malformed pictures are ignored', () => {
+  const buffer = serializeVorbisComment({
+    vendor: 'test',
+    comments: { TITLE: ['Title'], METADATA_BLOCK_PICTURE: ['AAAA'] },
+  });
+
+  expect(parseVorbisComment(buffer)).toEqual({ vendor: 'test', comments: { TITLE: ['Title'] }, pictures: [] });
+});
+
+test('Malformed OpusTags packets are reported without failing the stream', async (done) => {
+  expect.assertions(3);
+
+  const tags = serializeVorbisComment({ vendor: 'test', comments: { TITLE: ['Title'] } });
+  const truncated = Buffer.concat([Buffer.from('OpusTags'), tags.slice(0, tags.length - 1)]);
+  const source = new opus.OggDemuxer();
+  const head = new Promise<Buffer>((resolve) => source.once('head', resolve));
+  const packets = await streamToArray<Buffer>(createReadStream('./test/audio/speech_orig.ogg').pipe(source));
+  const ogg = Buffer.concat(await muxOgg(1, [await head, truncated], packets));
+
+  const demuxer = new opus.OggDemuxer();
+  const decoder = new opus.Decoder({ rate: 48000, channels: 1, frameSize: 960 });
+  const onTags = jest.fn();
+  demuxer.on('tags', onTags);
+  const invalid = Promise.all(
+    [demuxer, decoder].map(
+      (stream) => new Promise((resolve) => stream.once('invalid', (error, packet) => resolve(packet))),
+    ),
+  );
+  // OpusTags packets written to the decoder are parsed too
+  decoder.write(truncated);
+  const pcm = await streamToBuffer(Readable.from([ogg]).pipe(demuxer).pipe(decoder));
+
+  expect(await invalid).toEqual([truncated, truncated]);
+  expect(onTags).not.toHaveBeenCalled();
+  expect(pcm.length).toBeGreaterThanOrEqual(103e3);
+  done();
+});
+
+test('opus.OggMuxer writes tags that opus.OggDemuxer parses', async (done) => {
+  expect.assertions(1);
+
+  const demuxer = new opus.OggDemuxer();
+  const tags = new Promise<VorbisComment>((resolve) => demuxer.on('tags', resolve));
+  await streamToArray(
+    createReadStream('./test/audio/speech_orig.ogg')
+      .pipe(new opus.OggDemuxer())
+      .pipe(new opus.OggMuxer({ channels: 1, comments: { TITLE: 'Speech' }, pictures: [cover] }))
+      .pipe(demuxer),
+  );
+
+  expect(await tags).toEqual({ vendor: 'prism-media', comments: { TITLE: ['Speech'] }, pictures: [cover] });
+  done();
+});
@@ -0,0 +1,250 @@
+import { randomBytes } from 'crypto';
+import { Readable } from 'stream';
+import { DemuxedPacket, opus, PACKET_FLAGS, WebmChapter, WebmInfo, WebmTag, WebmTrack } from '../src';
+import { streamToArray } from './util';
+
+// Opus packets of a single 20 ms frame (TOC 0x78)
+const frames = [300, 100, 50, 200, 150, 400, 80, 80].map((length) =>
+  Buffer.concat([Buffer.from([0x78]), randomBytes(length - 1)]),
+);
+
+function element(id: string, ...data: Buffer[]): Buffer {
+  const size = Buffer.alloc(8);
+  size.writeUIntBE(
+    data.reduce((total, buffer) => total + buffer.length, 0),
+    2,
+    6,
+  );
+  size[0] = 0x01;
+  return Buffer.concat([Buffer.from(id, 'hex'), size, ...data]);
+}
+
+// Encodes a 2-byte EBML variable-size integer, which is signed in the lacing of blocks
+function vint(value: number, signed = false): Buffer {
+  const data = Buffer.alloc(2);
+  data.writeUInt16BE(0x4000 | (signed ? value + 0x1fff : value));
+  return data;
+}
+
+const head = Buffer.concat([Buffer.from('OpusHead'), Buffer.from([1, 1, 0x38, 1, 0x80, 0xbb, 0, 0, 0, 0, 0])]);
+
+function trackEntry(number: number, type: number, ...children: Buffer[]): Buffer {
+  return element('ae', element('d7', Buffer.from([number])), element('83', Buffer.from([type])), ...children);
+}
+
+function webm(tracks: Buffer[], blocks: Buffer[], metadata: Buffer[] = []): Buffer {
+  return Buffer.concat([
+    element('1a45dfa3', element('4282', Buffer.from('webm'))),
+    element(
+      '18538067',
+      element('1654ae6b', ...tracks),
+      element('1f43b675', element('e7', Buffer.from([0])), ...blocks),
+      ...metadata,
+    ),
+  ]);
+}
+
+function lacedWebm(): Buffer {
+  return webm(
+    [trackEntry(1, 2, element('63a2', head))],
+    [
+      // Xiph lacing
+      element('a3', Buffer.from([0x81, 0, 0, 0x82, 2, 255, 45, 100]), ...frames.slice(0, 3)),
+      // Another track
+      element('a3', Buffer.from([0x82, 0, 0, 0x80]), randomBytes(100)),
+      // EBML lacing in a BlockGroup that references another block
+      element(
+        'a0',
+        element('a1', Buffer.from([0x81, 0, 60, 0x06, 2]), vint(200), vint(-50, true), ...frames.slice(3, 6)),
+        element('9b', Buffer.from([60])),
+        element('fb', Buffer.from([0xc4])),
+      ),
+      // Fixed-size lacing, with a 2-byte track number
+      element('a3', Buffer.from([0x40, 0x01, 0, 120, 0x85, 1]), ...frames.slice(6)),
+    ],
+  );
+}
+
+// A video track and two audio tracks in different languages, the second one being the default
+function multiTrackWebm(): Buffer {
+  const frequency = Buffer.alloc(8);
+  frequency.writeDoubleBE(48000);
+  const audio = () => element('e1', element('b5', frequency), element('9f', Buffer.from([2])));
+  return webm(
+    [
+      trackEntry(1, 1, element('86', Buffer.from('V_VP9'))),
+      trackEntry(
+        2,
+        2,
+        element('86', Buffer.from('A_OPUS')),
+        element('63a2', head),
+        element('22b59c', Buffer.from('fre')),
+        element('88', Buffer.from([0])),
+        audio(),
+      ),
+      trackEntry(
+        3,
+        2,
+        element('86', Buffer.from('A_OPUS')),
+        element('63a2', head),
+        element('536e', Buffer.from('Commentary')),
+        audio(),
+      ),
+    ],
+    [2, 3, 1, 3, 2].map((track, i) => element('a3', Buffer.from([0x80 | track, 0, i, 0x80]), frames[i])),
+  );
+}
+
+test('WebmDemuxer splits laced blocks and reads BlockGroups', async (done) => {
+  expect.assertions(3);
+
+  const packets = await streamToArray<DemuxedPacket>(
+    Readable.from([lacedWebm()]).pipe(new opus.WebmDemuxer({ metadata: true })),
+  );
+
+  expect(Buffer.concat(packets.map(({ data }) => data)).equals(Buffer.concat(frames))).toEqual(true);
+  expect(packets.map(({ timestamp }) => timestamp)).toEqual([0, 20, 40, 60, 80, 100, 120, 140]);
+  expect(packets.map(({ flags }) => flags)).toEqual([
+    ...Array(3).fill(PACKET_FLAGS.KEYFRAME),
+    ...Array(3).fill(0),
+    ...Array(2).fill(PACKET_FLAGS.KEYFRAME | PACKET_FLAGS.DISCARDABLE),
+  ]);
+  done();
+});
+
+test('WebmDemuxer reads 8-byte DiscardPadding elements', async (done) => {
+  expect.assertions(1);
+
+  // 10 ms of padding, as a 64-bit signed integer in nanoseconds
+  const discardPadding = Buffer.alloc(8);
+  discardPadding.writeBigInt64BE(BigInt(10e6));
+  const input = webm(
+    [trackEntry(1, 2, element('63a2', head))],
+    [element('a0', element('a1', Buffer.from([0x81, 0, 0, 0x80]), frames[0]), element('75a2', discardPadding))],
+  );
+  const packets = await streamToArray<DemuxedPacket>(
+    Readable.from([input]).pipe(new opus.WebmDemuxer({ metadata: true })),
+  );
+
+  expect(packets.map(({ duration }) => duration)).toEqual([10]);
+  done();
+});
+
+test('WebmDemuxer emits an error for malformed laced blocks', async (done) => {
+  expect.assertions(1);
+
+  // The Xiph lacing sizes exceed the size of the block
+  const input = webm(
+    [trackEntry(1, 2, element('63a2', head))],
+    [element('a3', Buffer.from([0x81, 0, 0, 0x82, 2, 255, 255, 255]), frames[0])],
+  );
+  const demuxer = new opus.WebmDemuxer();
+  demuxer.on('error', (error) => {
+    expect(error.message).toEqual('Invalid lacing header');
+    done();
+  });
+  Readable.from([input]).pipe(demuxer);
+});
+
+test('WebmDemuxer reports tracks', async (done) => {
+  expect.assertions(2);
+
+  const demuxer = new opus.WebmDemuxer();
+  const tracks = new Promise<WebmTrack[]>((resolve) => demuxer.on('tracks', resolve));
+  await streamToArray(Readable.from([multiTrackWebm()]).pipe(demuxer));
+
+  expect(await tracks).toMatchObject([
+    { number: 1, type: 1, codecId: 'V_VP9', language: 'eng', default: true },
+    { number: 2, type: 2, codecId: 'A_OPUS', language: 'fre', default: false, samplingFrequency: 48000, channels: 2 },
+    { number: 3, type: 2, codecId: 'A_OPUS', language: 'eng', default: true, name: 'Commentary' },
+  ]);
+  expect(demuxer.track?.number).toEqual(3);
+  done();
+});
+
+test('WebmDemuxer selects tracks', async (done) => {
+  expect.assertions(4);
+
+  const demux = (track?: number | string | ((track: WebmTrack) => boolean)) =>
+    streamToArray<Buffer>(Readable.from([multiTrackWebm()]).pipe(new opus.WebmDemuxer({ track })));
+
+  expect(await demux()).toEqual([frames[1], frames[3]]);
+  expect(await demux(2)).toEqual([frames[0], frames[4]]);
+  expect(await demux('fre')).toEqual([frames[0], frames[4]]);
+  expect(await demux(({ name }) => name === 'Commentary')).toEqual([frames[1], frames[3]]);
+  done();
+});
+
+test('WebmDemuxer emits info, tags and chapters', async (done) => {
+  expect.assertions(3);
+
+  const duration = Buffer.alloc(8);
+  duration.writeDoubleBE(1500);
+  const info = element(
+    '1549a966',
+    element('2ad7b1', Buffer.from([0x0f, 0x42, 0x40])),
+    element('4489', duration),
+    element('7ba9', Buffer.from('Podcast')),
+    element('4d80', Buffer.from('libwebm')),
+  );
+  const tags = element(
+    '1254c367',
+    element(
+      '7373',
+      element('63c0', element('68ca', Buffer.from([50]))),
+      element(
+        '67c8',
+        element('45a3', Buffer.from('ARTIST')),
+        element('4487', Buffer.from('Someone')),
+        element('67c8', element('45a3', Buffer.from('URL')), element('4487', Buffer.from('https://example.com'))),
+      ),
+      element('67c8', element('45a3', Buffer.from('TITLE')), element('4487', Buffer.from('Episode 1'))),
+    ),
+  );
+  const chapter = (start: number, title: string) =>
+    element(
+      'b6',
+      element(
+        '91',
+        Buffer.from(
+          BigInt(start * 1e6)
+            .toString(16)
+            .padStart(16, '0'),
+          'hex',
+        ),
+      ),
+      element('80', element('85', Buffer.from(title)), element('437c', Buffer.from('eng'))),
+    );
+  const chapters = element('1043a770', element('45b9', chapter(0, 'Intro'), chapter(60000, 'Interview')));
+
+  const demuxer = new opus.WebmDemuxer();
+  const events = Promise.all(
+    ['info', 'tags', 'chapters'].map((event) => new Promise((resolve) => demuxer.once(event, resolve))),
+  );
+  await streamToArray(
+    Readable.from([webm([trackEntry(1, 2, element('63a2', head))], [], [info, tags, chapters])]).pipe(demuxer),
+  );
+  const [webmInfo, webmTags, webmChapters] = (await events) as [WebmInfo, WebmTag[], WebmChapter[]];
+
+  expect(webmInfo).toEqual({ timecodeScale: 1e6, duration: 1500, title: 'Podcast', muxingApp: 'libwebm' });
+  expect(webmTags).toMatchObject([
+    {
+      targetTypeValue: 50,
+      trackUids: [],
+      simpleTags: [
+        {
+          name: 'ARTIST',
+          language: 'und',
+          value: 'Someone',
+          children: [{ name: 'URL', value: 'https://example.com' }],
+        },
+        { name: 'TITLE', value: 'Episode 1', children: [] },
+      ],
+    },
+  ]);
+  expect(webmChapters).toMatchObject([
+    { start: 0, hidden: false, titles: [{ title: 'Intro', language: 'eng' }], chapters: [] },
+    { start: 60000, titles: [{ title: 'Interview' }] },
+  ]);
+  done();
+});